@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "MemberRole" AS ENUM ('OWNER', 'ADMIN', 'MEMBER');
+
+-- DropForeignKey
+ALTER TABLE "chat_sessions" DROP CONSTRAINT "chat_sessions_participant1Id_fkey";
+
+-- DropForeignKey
+ALTER TABLE "chat_sessions" DROP CONSTRAINT "chat_sessions_participant2Id_fkey";
+
+-- DropForeignKey
+ALTER TABLE "messages" DROP CONSTRAINT "messages_receiverId_fkey";
+
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN     "isGroup" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "name" TEXT,
+ALTER COLUMN "participant1Id" DROP NOT NULL,
+ALTER COLUMN "participant2Id" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "messages" ALTER COLUMN "receiverId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "chat_members" (
+    "id" TEXT NOT NULL,
+    "chatSessionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "MemberRole" NOT NULL DEFAULT 'MEMBER',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReadAt" TIMESTAMP(3),
+
+    CONSTRAINT "chat_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_members_userId_idx" ON "chat_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_members_chatSessionId_userId_key" ON "chat_members"("chatSessionId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "chat_sessions" ADD CONSTRAINT "chat_sessions_participant1Id_fkey" FOREIGN KEY ("participant1Id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_sessions" ADD CONSTRAINT "chat_sessions_participant2Id_fkey" FOREIGN KEY ("participant2Id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_members" ADD CONSTRAINT "chat_members_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "chat_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_members" ADD CONSTRAINT "chat_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_receiverId_fkey" FOREIGN KEY ("receiverId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing 1:1 sessions become two-member conversations
+INSERT INTO "chat_members" ("id", "chatSessionId", "userId", "role", "joinedAt")
+SELECT md5(random()::text || s."id" || '1'), s."id", s."participant1Id", 'MEMBER', s."createdAt"
+FROM "chat_sessions" s
+WHERE s."participant1Id" IS NOT NULL;
+
+INSERT INTO "chat_members" ("id", "chatSessionId", "userId", "role", "joinedAt")
+SELECT md5(random()::text || s."id" || '2'), s."id", s."participant2Id", 'MEMBER', s."createdAt"
+FROM "chat_sessions" s
+WHERE s."participant2Id" IS NOT NULL;
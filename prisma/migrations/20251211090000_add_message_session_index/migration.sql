@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "messages_chatSessionId_createdAt_idx" ON "messages"("chatSessionId", "createdAt");
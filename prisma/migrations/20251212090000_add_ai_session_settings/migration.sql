@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN     "aiSettings" JSONB;
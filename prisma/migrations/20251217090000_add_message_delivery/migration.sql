@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "clientMessageId" TEXT,
+ADD COLUMN     "deliveredAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "chat_members" ADD COLUMN     "lastDeliveredAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "messages_senderId_clientMessageId_key" ON "messages"("senderId", "clientMessageId");
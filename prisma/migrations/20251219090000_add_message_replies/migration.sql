@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "messages_parentId_createdAt_idx" ON "messages"("parentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "EmailVisibility" AS ENUM ('EVERYONE', 'CONTACTS');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "emailVisibility" "EmailVisibility" NOT NULL DEFAULT 'CONTACTS',
+ADD COLUMN     "statusText" TEXT;
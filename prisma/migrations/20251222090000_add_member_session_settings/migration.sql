@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "chat_members" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "mutedUntil" TIMESTAMP(3),
+ADD COLUMN     "nickname" TEXT,
+ADD COLUMN     "pinnedAt" TIMESTAMP(3);
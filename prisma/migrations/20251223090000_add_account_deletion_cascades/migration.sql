@@ -0,0 +1,11 @@
+-- DropForeignKey
+ALTER TABLE "chat_members" DROP CONSTRAINT "chat_members_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "messages" DROP CONSTRAINT "messages_chatSessionId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "chat_members" ADD CONSTRAINT "chat_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "chat_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "AiUsagePurpose" AS ENUM ('REPLY', 'SUMMARY');
+
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN     "aiMemoryClearedAt" TIMESTAMP(3),
+ADD COLUMN     "aiSummary" TEXT,
+ADD COLUMN     "aiSummaryThrough" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ai_usage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chatSessionId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "purpose" "AiUsagePurpose" NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "cancelled" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_userId_createdAt_idx" ON "ai_usage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_chatSessionId_createdAt_idx" ON "ai_usage"("chatSessionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "chat_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- AlterEnum
+ALTER TYPE "AiUsagePurpose" ADD VALUE 'TITLE';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "isBot" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN     "botId" TEXT;
+
+-- Mark the built-in assistant as a bot
+UPDATE "users" SET "isBot" = true WHERE "id" = 'ai-assistant';
+
+-- AI sessions no longer use the participant pair, so a user can have many.
+-- The human owner becomes participant1 and the assistant moves to botId.
+UPDATE "chat_sessions"
+SET "botId" = 'ai-assistant',
+    "participant1Id" = CASE WHEN "participant1Id" = 'ai-assistant' THEN "participant2Id" ELSE "participant1Id" END,
+    "participant2Id" = NULL
+WHERE "participant1Id" = 'ai-assistant' OR "participant2Id" = 'ai-assistant';
+
+-- CreateTable
+CREATE TABLE "ai_personas" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "botId" TEXT NOT NULL,
+    "aiSettings" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_personas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_participant1Id_botId_idx" ON "chat_sessions"("participant1Id", "botId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_personas_botId_key" ON "ai_personas"("botId");
+
+-- CreateIndex
+CREATE INDEX "ai_personas_ownerId_idx" ON "ai_personas"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "chat_sessions" ADD CONSTRAINT "chat_sessions_botId_fkey" FOREIGN KEY ("botId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_personas" ADD CONSTRAINT "ai_personas_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_personas" ADD CONSTRAINT "ai_personas_botId_fkey" FOREIGN KEY ("botId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterEnum
+ALTER TYPE "AiUsagePurpose" ADD VALUE 'MENTION';
+ALTER TYPE "AiUsagePurpose" ADD VALUE 'CHAT_SUMMARY';
+ALTER TYPE "AiUsagePurpose" ADD VALUE 'REPLY_SUGGESTION';
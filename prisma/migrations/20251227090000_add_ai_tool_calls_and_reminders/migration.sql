@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "ai_tool_calls" (
+    "id" TEXT NOT NULL,
+    "chatSessionId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "userId" TEXT NOT NULL,
+    "callId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "arguments" JSONB NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_tool_calls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "reminders" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chatSessionId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "remindAt" TIMESTAMP(3) NOT NULL,
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_tool_calls_messageId_idx" ON "ai_tool_calls"("messageId");
+
+-- CreateIndex
+CREATE INDEX "ai_tool_calls_chatSessionId_createdAt_idx" ON "ai_tool_calls"("chatSessionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "reminders_deliveredAt_remindAt_idx" ON "reminders"("deliveredAt", "remindAt");
+
+-- CreateIndex
+CREATE INDEX "reminders_userId_remindAt_idx" ON "reminders"("userId", "remindAt");
+
+-- AddForeignKey
+ALTER TABLE "ai_tool_calls" ADD CONSTRAINT "ai_tool_calls_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "chat_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_tool_calls" ADD CONSTRAINT "ai_tool_calls_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_tool_calls" ADD CONSTRAINT "ai_tool_calls_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reminders" ADD CONSTRAINT "reminders_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reminders" ADD CONSTRAINT "reminders_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "chat_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
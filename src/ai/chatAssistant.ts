@@ -0,0 +1,219 @@
+import { PrismaClient, AiUsagePurpose } from '@prisma/client';
+import { AI_USER_ID, resolveAiSettings } from './config.js';
+import { ChatMessage, completeChat, getLlmProvider } from './providers.js';
+import { CONTEXT_TOKEN_BUDGET } from './context.js';
+import { ensureAssistantUser } from './conversations.js';
+import { checkTokenQuota } from './quota.js';
+import { estimateTokens, estimateMessageTokens } from './tokens.js';
+import { recordAiUsage } from './usage.js';
+import { findMembership, getMemberIds } from '../services/membership.js';
+import { postBotMessage } from '../services/messages.js';
+import { consume } from '../services/rateLimit.js';
+import { emitToUsers } from '../socketInstance.js';
+
+const prisma = new PrismaClient();
+
+// "@ai" anywhere in a message of a human conversation asks the assistant to answer
+const AI_MENTION_PATTERN = /(^|\s)@ai\b/i;
+
+// Most messages loaded into a transcript, before the token budget applies
+const TRANSCRIPT_MESSAGE_LIMIT = 100;
+
+const MENTION_PROMPT = [
+  'You are an AI assistant taking part in a chat between people.',
+  'Someone mentioned you with @ai in the last message. Answer them helpfully and concisely,',
+  'using the conversation for context. Lines are formatted as "Name: message".',
+].join(' ');
+
+const SUMMARY_PROMPT = [
+  'Summarize the chat below for someone catching up: the main topics, decisions and open questions,',
+  'as a few short bullet points. Lines are formatted as "Name: message".',
+].join(' ');
+
+const suggestionPrompt = (name: string) => [
+  `Suggest the next message ${name} could send in the chat below, matching its tone and language.`,
+  'Reply with the message text only. Lines are formatted as "Name: message".',
+].join(' ');
+
+/**
+ * An assistant action that was rejected, with the HTTP status to report
+ */
+export class ChatAssistantError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs = 0) {
+    super(message);
+    this.name = 'ChatAssistantError';
+  }
+}
+
+export const mentionsAssistant = (content: string) => AI_MENTION_PATTERN.test(content);
+
+/**
+ * The user's membership of a conversation between people (not an AI conversation)
+ */
+const findHumanMembership = async (sessionId: string, userId: string) => {
+  const membership = await findMembership(sessionId, userId);
+  if (!membership || membership.chatSession.botId) {
+    throw new ChatAssistantError('Session not found', 404);
+  }
+  return membership;
+};
+
+/**
+ * The latest messages the user can see, oldest first, as "Name: message"
+ * lines fitting in the budget. Bot senders are labelled as such.
+ */
+const loadTranscript = async (sessionId: string, userId: string, budget: number) => {
+  const messages = await prisma.message.findMany({
+    where: {
+      chatSessionId: sessionId,
+      deletedAt: null,
+      content: { not: '' },
+      hiddenBy: { none: { userId } },
+    },
+    select: { content: true, sender: { select: { name: true, isBot: true } } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: TRANSCRIPT_MESSAGE_LIMIT,
+  });
+
+  const lines: string[] = [];
+  let tokens = 0;
+  for (const message of messages) {
+    const line = `${message.sender.name}${message.sender.isBot ? ' (bot)' : ''}: ${message.content}`;
+    const cost = estimateTokens(line) + 1;
+    if (lines.length > 0 && tokens + cost > budget) {
+      break;
+    }
+    lines.push(line);
+    tokens += cost;
+  }
+
+  return lines.reverse().join('\n');
+};
+
+/**
+ * Run one assistant request over a conversation's transcript, within the
+ * user's daily token quota, and record its usage
+ */
+const runOverTranscript = async (
+  userId: string,
+  sessionId: string,
+  purpose: AiUsagePurpose,
+  instructions: string
+) => {
+  const quota = await checkTokenQuota(userId);
+  if (!quota.allowed) {
+    throw new ChatAssistantError('Daily AI token quota exceeded', 429, quota.retryAfterMs);
+  }
+  if (!getLlmProvider().isConfigured()) {
+    throw new ChatAssistantError('AI service is not configured', 503);
+  }
+
+  const settings = resolveAiSettings();
+  const budget = Math.max(CONTEXT_TOKEN_BUDGET - estimateTokens(instructions), 0);
+  const prompt: ChatMessage[] = [
+    { role: 'system', content: instructions },
+    { role: 'user', content: await loadTranscript(sessionId, userId, budget) },
+  ];
+
+  const text = (await completeChat({
+    model: settings.model,
+    messages: prompt,
+    maxTokens: settings.maxTokens,
+    temperature: settings.temperature,
+  })).trim();
+
+  const usage = {
+    promptTokens: estimateMessageTokens(prompt),
+    completionTokens: estimateTokens(text),
+  };
+  await recordAiUsage({ userId, chatSessionId: sessionId, purpose, model: settings.model, ...usage });
+
+  return { text, usage };
+};
+
+/**
+ * Summarize the recent conversation for the user only; nothing is posted
+ */
+export const summarizeChat = async (userId: string, sessionId: string) => {
+  await findHumanMembership(sessionId, userId);
+  const { text, usage } = await runOverTranscript(userId, sessionId, 'CHAT_SUMMARY', SUMMARY_PROMPT);
+  return { summary: text, usage };
+};
+
+/**
+ * Draft a reply the user could send next; nothing is posted
+ */
+export const suggestReply = async (userId: string, sessionId: string) => {
+  await findHumanMembership(sessionId, userId);
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { name: true } });
+  const { text, usage } = await runOverTranscript(userId, sessionId, 'REPLY_SUGGESTION', suggestionPrompt(user.name));
+  return { suggestion: text, usage };
+};
+
+/**
+ * Answer a message that mentions the assistant, as a threaded reply from the
+ * assistant's bot account. Members who cannot see the question (because they
+ * hid it or blocked its sender) do not see the answer either. Failures the
+ * sender can act on are reported to them as `ai-mention-error`. Messages in
+ * AI conversations are ignored.
+ */
+export const replyToMention = async (
+  userId: string,
+  trigger: { id: string; chatSessionId: string }
+) => {
+  const sessionId = trigger.chatSessionId;
+
+  // AI conversations already answer every message; @ai there is not a mention
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    select: { botId: true },
+  });
+  if (session?.botId) {
+    return null;
+  }
+
+  try {
+    const membership = await findHumanMembership(sessionId, userId);
+
+    // Mentions arrive over the socket, so the REST limit for AI requests is applied here
+    const limit = await consume('ai', `user:${userId}`);
+    if (!limit.allowed) {
+      throw new ChatAssistantError('Too many AI requests, please slow down', 429, limit.retryAfterMs);
+    }
+
+    const { text } = await runOverTranscript(userId, sessionId, 'MENTION', MENTION_PROMPT);
+
+    if (!text) {
+      return null;
+    }
+
+    await ensureAssistantUser();
+
+    const hiddenBy = await prisma.hiddenMessage.findMany({
+      where: { messageId: trigger.id },
+      select: { userId: true },
+    });
+    // In 1:1 sessions the answer is unread for the participant who did not ask
+    const receiverId = membership.chatSession.isGroup
+      ? null
+      : (await getMemberIds(sessionId)).find((id) => id !== userId) ?? null;
+
+    return await postBotMessage(AI_USER_ID, {
+      chatSessionId: sessionId,
+      content: text,
+      parentId: trigger.id,
+      hiddenFrom: hiddenBy.map((hidden) => hidden.userId),
+      receiverId,
+    });
+  } catch (error) {
+    if (error instanceof ChatAssistantError) {
+      emitToUsers([userId], 'ai-mention-error', {
+        sessionId,
+        messageId: trigger.id,
+        error: error.message,
+      });
+      return null;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+export type AiProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+// Account that sends the assistant's messages
+export const AI_USER_ID = 'ai-assistant';
+
+/**
+ * Generation settings that can be overridden per AI chat session
+ */
+export const aiSettingsSchema = z.object({
+  model: z.string().min(1).max(100),
+  systemPrompt: z.string().min(1).max(4000),
+  maxTokens: z.number().int().min(1).max(4096),
+  temperature: z.number().min(0).max(2),
+});
+
+export type AiSettings = z.infer<typeof aiSettingsSchema>;
+
+const DEFAULT_SYSTEM_PROMPT = 'You are a helpful AI assistant. Be concise and friendly in your responses.';
+
+// Trim whitespace and remove quotes from env values (a common copy/paste issue)
+const readEnv = (name: string) => process.env[name]?.trim().replace(/^["']|["']$/g, '') || undefined;
+
+const readNumber = (name: string, fallback: number) => {
+  const value = Number(readEnv(name));
+  return Number.isFinite(value) && readEnv(name) !== undefined ? value : fallback;
+};
+
+/**
+ * Deployment-level AI configuration, read from environment variables
+ */
+export const getAiConfig = () => {
+  const provider = (readEnv('AI_PROVIDER') || 'openai') as AiProviderName;
+
+  return {
+    provider,
+    apiKey: readEnv('AI_API_KEY') || readEnv('OPENAI_API_KEY'),
+    baseURL: readEnv('AI_BASE_URL'),
+    defaults: {
+      model: readEnv('AI_MODEL') || 'gpt-3.5-turbo',
+      systemPrompt: readEnv('AI_SYSTEM_PROMPT') || DEFAULT_SYSTEM_PROMPT,
+      maxTokens: readNumber('AI_MAX_TOKENS', 500),
+      temperature: readNumber('AI_TEMPERATURE', 0.7),
+    } as AiSettings,
+  };
+};
+
+/**
+ * Merge stored overrides over the deployment defaults, later layers winning
+ * (e.g. persona settings, then session settings).
+ * Invalid or unknown stored values are ignored.
+ */
+export const resolveAiSettings = (...layers: unknown[]): AiSettings => {
+  let settings = getAiConfig().defaults;
+  for (const overrides of layers) {
+    const parsed = aiSettingsSchema.partial().safeParse(overrides ?? {});
+    settings = { ...settings, ...(parsed.success ? parsed.data : {}) };
+  }
+  return settings;
+};
+
+/**
+ * Apply an update to stored overrides: null removes an override so the
+ * default applies again, undefined leaves it unchanged
+ */
+export const mergeAiOverrides = (current: unknown, updates: Partial<Record<keyof AiSettings, unknown>>) => {
+  const overrides: Record<string, unknown> = {
+    ...((current as Record<string, unknown> | null) ?? {}),
+  };
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null) {
+      delete overrides[key];
+    } else if (value !== undefined) {
+      overrides[key] = value;
+    }
+  }
+  return overrides;
+};
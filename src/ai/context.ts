@@ -0,0 +1,234 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { ChatMessage, completeChat } from './providers.js';
+import { AiSettings, AI_USER_ID } from './config.js';
+import { estimateTokens, estimateMessageTokens } from './tokens.js';
+import { recordAiUsage } from './usage.js';
+
+const prisma = new PrismaClient();
+
+// Estimated prompt tokens (system prompt, summary and recent messages) per request
+export const CONTEXT_TOKEN_BUDGET = Number(process.env.AI_CONTEXT_TOKEN_BUDGET ?? 3000);
+// Longest running summary the assistant keeps
+const SUMMARY_MAX_TOKENS = Number(process.env.AI_SUMMARY_MAX_TOKENS ?? 400);
+
+// Messages loaded per query while filling the context
+const HISTORY_BATCH_SIZE = 50;
+
+const SUMMARY_PROMPT = [
+  'You maintain the memory of a conversation between a user and an AI assistant.',
+  'Merge the new messages into the current summary. Keep facts about the user, their preferences,',
+  'decisions and open questions; drop small talk. Reply with the updated summary only.',
+].join(' ');
+
+/**
+ * The fields of an AI chat session that make up the assistant's memory
+ */
+export const memorySelect = {
+  id: true,
+  botId: true,
+  aiSummary: true,
+  aiSummaryThrough: true,
+  aiMemoryClearedAt: true,
+} satisfies Prisma.ChatSessionSelect;
+
+type MemoryState = Prisma.ChatSessionGetPayload<{ select: typeof memorySelect }>;
+
+const historySelect = {
+  id: true,
+  senderId: true,
+  content: true,
+  createdAt: true,
+} satisfies Prisma.MessageSelect;
+
+type HistoryMessage = Prisma.MessageGetPayload<{ select: typeof historySelect }>;
+
+/**
+ * Messages the assistant has not forgotten or folded into the summary yet.
+ * Deleted, empty and hidden messages never reach the model.
+ */
+const unsummarizedWhere = (session: MemoryState, userId: string, before?: Date): Prisma.MessageWhereInput => {
+  const after = session.aiSummaryThrough ?? session.aiMemoryClearedAt;
+  return {
+    chatSessionId: session.id,
+    deletedAt: null,
+    content: { not: '' },
+    hiddenBy: { none: { userId } },
+    createdAt: {
+      ...(after ? { gt: after } : {}),
+      ...(before ? { lt: before } : {}),
+    },
+  };
+};
+
+const toChatMessage = (message: HistoryMessage, botId: string): ChatMessage => ({
+  role: message.senderId === botId ? 'assistant' : 'user',
+  content: message.content,
+});
+
+const messageCost = (message: HistoryMessage) => estimateTokens(message.content) + 4;
+
+/**
+ * Newest unsummarized messages that fit in the budget, oldest first. The
+ * latest message is always included, even when it alone exceeds the budget.
+ */
+const loadRecentHistory = async (session: MemoryState, userId: string, budget: number) => {
+  const recent: HistoryMessage[] = [];
+  let tokens = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.message.findMany({
+      where: unsummarizedWhere(session, userId),
+      select: historySelect,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      take: HISTORY_BATCH_SIZE,
+    });
+
+    for (const message of batch) {
+      const cost = messageCost(message);
+      if (recent.length > 0 && tokens + cost > budget) {
+        return { messages: recent.reverse(), overflow: true };
+      }
+      recent.push(message);
+      tokens += cost;
+    }
+
+    if (batch.length < HISTORY_BATCH_SIZE) {
+      return { messages: recent.reverse(), overflow: false };
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+};
+
+/**
+ * Build the prompt for the next reply: the system prompt, the running summary
+ * and as many recent messages as fit in AI_CONTEXT_TOKEN_BUDGET.
+ * `overflow` is set when older unsummarized messages had to be left out.
+ */
+export const buildContext = async (session: MemoryState, userId: string, settings: AiSettings) => {
+  const prompt: ChatMessage[] = [{ role: 'system', content: settings.systemPrompt }];
+  if (session.aiSummary) {
+    prompt.push({ role: 'system', content: `Summary of the earlier conversation:\n${session.aiSummary}` });
+  }
+
+  const budget = Math.max(CONTEXT_TOKEN_BUDGET - estimateMessageTokens(prompt), 0);
+  const history = await loadRecentHistory(session, userId, budget);
+  const botId = session.botId ?? AI_USER_ID;
+
+  return {
+    prompt: [...prompt, ...history.messages.map((message) => toChatMessage(message, botId))],
+    history: history.messages,
+    overflow: history.overflow,
+  };
+};
+
+/**
+ * What the assistant currently remembers about a session
+ */
+export const describeMemory = async (session: MemoryState, userId: string, settings: AiSettings) => {
+  const context = await buildContext(session, userId, settings);
+
+  return {
+    summary: session.aiSummary,
+    summarizedThrough: session.aiSummaryThrough,
+    clearedAt: session.aiMemoryClearedAt,
+    contextTokenBudget: CONTEXT_TOKEN_BUDGET,
+    context: {
+      messageCount: context.history.length,
+      estimatedTokens: estimateMessageTokens(context.prompt),
+      since: context.history[0]?.createdAt ?? null,
+    },
+  };
+};
+
+/**
+ * Make the assistant forget everything said so far. Messages stay visible in
+ * the conversation but are no longer sent to the model.
+ */
+export const clearMemory = (sessionId: string) =>
+  prisma.chatSession.update({
+    where: { id: sessionId },
+    data: { aiSummary: null, aiSummaryThrough: null, aiMemoryClearedAt: new Date() },
+    select: memorySelect,
+  });
+
+/**
+ * Fold the oldest messages that no longer fit in the context into the running
+ * summary. Runs after each reply; one pass folds at most one context budget
+ * worth of messages, so long backlogs catch up over several replies.
+ */
+export const compactMemory = async (sessionId: string, userId: string, settings: AiSettings) => {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    select: memorySelect,
+  });
+  if (!session) {
+    return;
+  }
+
+  const context = await buildContext(session, userId, settings);
+  if (!context.overflow || context.history.length === 0) {
+    return;
+  }
+
+  const older = await prisma.message.findMany({
+    where: unsummarizedWhere(session, userId, context.history[0].createdAt),
+    select: historySelect,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: HISTORY_BATCH_SIZE,
+  });
+
+  const chunk: HistoryMessage[] = [];
+  let tokens = 0;
+  for (const message of older) {
+    if (chunk.length > 0 && tokens + messageCost(message) > CONTEXT_TOKEN_BUDGET) {
+      break;
+    }
+    chunk.push(message);
+    tokens += messageCost(message);
+  }
+  if (chunk.length === 0) {
+    return;
+  }
+
+  const botId = session.botId ?? AI_USER_ID;
+  const transcript = chunk
+    .map((message) => `${message.senderId === botId ? 'Assistant' : 'User'}: ${message.content}`)
+    .join('\n');
+  const prompt: ChatMessage[] = [
+    { role: 'system', content: SUMMARY_PROMPT },
+    { role: 'user', content: `Current summary:\n${session.aiSummary ?? '(empty)'}\n\nNew messages:\n${transcript}` },
+  ];
+
+  const text = await completeChat({
+    model: settings.model,
+    messages: prompt,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    temperature: 0.2,
+  });
+
+  await recordAiUsage({
+    userId,
+    chatSessionId: sessionId,
+    purpose: 'SUMMARY',
+    model: settings.model,
+    promptTokens: estimateMessageTokens(prompt),
+    completionTokens: estimateTokens(text),
+  });
+
+  const summary = text.trim().slice(0, SUMMARY_MAX_TOKENS * 4);
+  if (!summary) {
+    return;
+  }
+
+  // Skip the update if the memory was cleared or compacted meanwhile
+  await prisma.chatSession.updateMany({
+    where: {
+      id: sessionId,
+      aiSummaryThrough: session.aiSummaryThrough,
+      aiMemoryClearedAt: session.aiMemoryClearedAt,
+    },
+    data: { aiSummary: summary, aiSummaryThrough: chunk[chunk.length - 1].createdAt },
+  });
+};
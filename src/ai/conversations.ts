@@ -0,0 +1,154 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import { AiSettings, resolveAiSettings, AI_USER_ID } from './config.js';
+import { ChatMessage, completeChat } from './providers.js';
+import { estimateTokens, estimateMessageTokens } from './tokens.js';
+import { recordAiUsage } from './usage.js';
+import { emitToUsers } from '../socketInstance.js';
+
+const prisma = new PrismaClient();
+
+export const MAX_TITLE_LENGTH = 100;
+
+const TITLE_PROMPT = 'Write a short title (at most six words) for the conversation below. Reply with the title only, without quotes.';
+
+// Create the default assistant's account on first use
+export const ensureAssistantUser = async () => {
+  const aiUser = await prisma.user.findUnique({
+    where: { id: AI_USER_ID },
+  });
+  if (aiUser) {
+    return;
+  }
+
+  // Create AI user with a dummy password (never used for login)
+  const hashedPassword = await bcrypt.hash('ai-user-no-login', 10);
+
+  await prisma.user.create({
+    data: {
+      id: AI_USER_ID,
+      email: 'ai@assistant.com',
+      name: 'AI Assistant',
+      password: hashedPassword,
+      emailVerified: false,
+      picture: 'https://ui-avatars.com/api/?name=AI&background=6366f1&color=fff',
+      isBot: true,
+    },
+  });
+};
+
+/**
+ * An AI conversation as returned to its owner, with the assistant it talks to
+ */
+export const aiSessionInclude = {
+  participant1: {
+    select: { id: true, name: true, picture: true, email: true },
+  },
+  bot: {
+    select: { id: true, name: true, picture: true, isBot: true, persona: { select: { id: true } } },
+  },
+} satisfies Prisma.ChatSessionInclude;
+
+/**
+ * Find one of the user's AI conversations, with what is needed to resolve its settings
+ */
+export const findAiConversation = (sessionId: string, userId: string) =>
+  prisma.chatSession.findFirst({
+    where: { id: sessionId, participant1Id: userId, botId: { not: null } },
+    include: { bot: { select: { persona: { select: { aiSettings: true } } } } },
+  });
+
+type AiConversation = NonNullable<Awaited<ReturnType<typeof findAiConversation>>>;
+
+/**
+ * Effective settings: deployment defaults, then the persona, then the conversation
+ */
+export const conversationSettings = (session: AiConversation) =>
+  resolveAiSettings(session.bot?.persona?.aiSettings, session.aiSettings);
+
+/**
+ * Start a new conversation between a user and an assistant
+ */
+export const createAiConversation = (userId: string, botId: string, title?: string) =>
+  prisma.chatSession.create({
+    data: {
+      participant1Id: userId,
+      botId,
+      name: title,
+      members: {
+        create: [{ userId }, { userId: botId }],
+      },
+    },
+    include: aiSessionInclude,
+  });
+
+/**
+ * The user's AI conversations, most recently active first
+ */
+export const listAiConversations = (
+  userId: string,
+  options: { botId?: string; limit: number; offset: number }
+) =>
+  prisma.chatSession.findMany({
+    where: {
+      participant1Id: userId,
+      botId: options.botId ?? { not: null },
+    },
+    include: aiSessionInclude,
+    orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+    skip: options.offset,
+    take: options.limit + 1,
+  });
+
+/**
+ * Name an untitled conversation after its first exchange and tell the
+ * owner's devices with `ai-session-updated`. Titles set by the user meanwhile win.
+ */
+export const generateTitle = async (sessionId: string, userId: string, settings: AiSettings) => {
+  const firstMessages = await prisma.message.findMany({
+    where: { chatSessionId: sessionId, deletedAt: null, content: { not: '' } },
+    select: { senderId: true, content: true },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: 2,
+  });
+  if (firstMessages.length === 0) {
+    return;
+  }
+
+  const transcript = firstMessages
+    .map((message) => `${message.senderId === userId ? 'User' : 'Assistant'}: ${message.content.slice(0, 1000)}`)
+    .join('\n');
+  const prompt: ChatMessage[] = [
+    { role: 'system', content: TITLE_PROMPT },
+    { role: 'user', content: transcript },
+  ];
+
+  const text = await completeChat({
+    model: settings.model,
+    messages: prompt,
+    maxTokens: 20,
+    temperature: 0.3,
+  });
+
+  await recordAiUsage({
+    userId,
+    chatSessionId: sessionId,
+    purpose: 'TITLE',
+    model: settings.model,
+    promptTokens: estimateMessageTokens(prompt),
+    completionTokens: estimateTokens(text),
+  });
+
+  const title = text.trim().replace(/^["'\s]+|["'.\s]+$/g, '').slice(0, MAX_TITLE_LENGTH);
+  if (!title) {
+    return;
+  }
+
+  const { count } = await prisma.chatSession.updateMany({
+    where: { id: sessionId, name: null },
+    data: { name: title },
+  });
+  if (count > 0) {
+    emitToUsers([userId], 'ai-session-updated', { sessionId, title });
+  }
+};
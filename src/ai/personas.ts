@@ -0,0 +1,133 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { AiSettings, mergeAiOverrides } from './config.js';
+
+const prisma = new PrismaClient();
+
+// Personas each user may define
+const MAX_PERSONAS_PER_USER = 20;
+
+export class PersonaError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'PersonaError';
+  }
+}
+
+export const personaSelect = {
+  id: true,
+  aiSettings: true,
+  createdAt: true,
+  updatedAt: true,
+  bot: { select: { id: true, name: true, picture: true } },
+} satisfies Prisma.AiPersonaSelect;
+
+type Persona = Prisma.AiPersonaGetPayload<{ select: typeof personaSelect }>;
+
+export interface PersonaInput {
+  name?: string;
+  picture?: string | null;
+  settings?: Partial<Record<keyof AiSettings, unknown>>;
+}
+
+const defaultAvatar = (name: string) =>
+  `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=6366f1&color=fff`;
+
+export const presentPersona = (persona: Persona) => ({
+  id: persona.id,
+  botId: persona.bot.id,
+  name: persona.bot.name,
+  picture: persona.bot.picture,
+  settings: persona.aiSettings ?? {},
+  createdAt: persona.createdAt,
+  updatedAt: persona.updatedAt,
+});
+
+export const listPersonas = async (ownerId: string) => {
+  const personas = await prisma.aiPersona.findMany({
+    where: { ownerId },
+    select: personaSelect,
+    orderBy: { createdAt: 'asc' },
+  });
+  return personas.map(presentPersona);
+};
+
+/**
+ * Load one of the user's personas, or fail with 404
+ */
+export const getPersona = async (ownerId: string, personaId: string) => {
+  const persona = await prisma.aiPersona.findFirst({
+    where: { id: personaId, ownerId },
+    select: personaSelect,
+  });
+  if (!persona) {
+    throw new PersonaError('Persona not found', 404);
+  }
+  return persona;
+};
+
+/**
+ * Create a persona with its own bot account, which sends its replies
+ */
+export const createPersona = async (ownerId: string, input: PersonaInput & { name: string }) => {
+  const count = await prisma.aiPersona.count({ where: { ownerId } });
+  if (count >= MAX_PERSONAS_PER_USER) {
+    throw new PersonaError(`You can create at most ${MAX_PERSONAS_PER_USER} personas`, 400);
+  }
+
+  const persona = await prisma.aiPersona.create({
+    data: {
+      owner: { connect: { id: ownerId } },
+      aiSettings: mergeAiOverrides(null, input.settings ?? {}) as Prisma.InputJsonObject,
+      bot: {
+        create: {
+          email: `persona-${randomUUID()}@bots.nexuschat.invalid`,
+          name: input.name,
+          picture: input.picture ?? defaultAvatar(input.name),
+          emailVerified: false,
+          isBot: true,
+        },
+      },
+    },
+    select: personaSelect,
+  });
+
+  return presentPersona(persona);
+};
+
+/**
+ * Rename a persona, change its avatar or adjust its settings (null clears a setting)
+ */
+export const updatePersona = async (ownerId: string, personaId: string, input: PersonaInput) => {
+  const persona = await getPersona(ownerId, personaId);
+  const name = input.name ?? persona.bot.name;
+
+  const updated = await prisma.aiPersona.update({
+    where: { id: persona.id },
+    data: {
+      aiSettings: mergeAiOverrides(persona.aiSettings, input.settings ?? {}) as Prisma.InputJsonObject,
+      bot: {
+        update: {
+          name,
+          ...(input.picture !== undefined ? { picture: input.picture ?? defaultAvatar(name) } : {}),
+        },
+      },
+    },
+    select: personaSelect,
+  });
+
+  return presentPersona(updated);
+};
+
+/**
+ * Delete a persona with its bot account and every conversation held with it
+ */
+export const deletePersona = async (ownerId: string, personaId: string) => {
+  const persona = await getPersona(ownerId, personaId);
+
+  // Conversations go first: their messages still reference the bot as sender
+  await prisma.$transaction([
+    prisma.chatSession.deleteMany({ where: { botId: persona.bot.id } }),
+    prisma.user.delete({ where: { id: persona.bot.id } }),
+  ]);
+};
@@ -0,0 +1,214 @@
+import OpenAI from 'openai';
+import { getAiConfig, AiProviderName } from './config.js';
+
+/**
+ * A function call requested by the model; `arguments` is the raw JSON it produced
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * A tool offered to the model, described with a JSON schema
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export type ChatMessage =
+  | { role: 'user' | 'system'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; content: string; toolCallId: string };
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  tools?: ToolDefinition[];
+}
+
+/**
+ * Streamed output: text as it is generated, then any tool calls once complete
+ */
+export type ChatStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool-calls'; toolCalls: ToolCall[] };
+
+/**
+ * A backend capable of generating assistant replies
+ */
+export interface LlmProvider {
+  name: AiProviderName;
+  /** Whether the provider has everything it needs (e.g. an API key) */
+  isConfigured(): boolean;
+  /** Yield the reply chunk by chunk; aborting the signal stops generation */
+  streamChat(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatStreamEvent>;
+}
+
+const toOpenAiMessage = (message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam => {
+  if (message.role === 'tool') {
+    return { role: 'tool', content: message.content, tool_call_id: message.toolCallId };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+};
+
+/**
+ * OpenAI, or any server exposing the OpenAI chat completions API
+ * (llama.cpp server, Ollama, vLLM, ...) when a baseURL is given
+ */
+export const createOpenAiProvider = (options: {
+  name: AiProviderName;
+  apiKey?: string;
+  baseURL?: string;
+}): LlmProvider => {
+  // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one
+  const apiKey = options.apiKey || (options.baseURL ? 'not-needed' : undefined);
+  // Created on first use: the SDK throws without a key, and an unconfigured
+  // provider must still answer isConfigured()
+  let client: OpenAI | null = null;
+
+  return {
+    name: options.name,
+    isConfigured: () => Boolean(apiKey),
+    async *streamChat(request, signal) {
+      if (!apiKey) {
+        throw new Error('AI provider is not configured');
+      }
+      client ??= new OpenAI({ apiKey, baseURL: options.baseURL });
+      const stream = await client.chat.completions.create({
+        model: request.model,
+        messages: request.messages.map(toOpenAiMessage),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map((tool) => ({
+                type: 'function' as const,
+                function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+              })),
+            }
+          : {}),
+        stream: true,
+      }, { signal });
+
+      // Tool calls arrive in fragments, keyed by their position in the reply
+      const toolCalls = new Map<number, ToolCall>();
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) {
+          yield { type: 'text', text: delta.content };
+        }
+        for (const fragment of delta?.tool_calls ?? []) {
+          const call = toolCalls.get(fragment.index) ?? { id: '', name: '', arguments: '' };
+          call.id += fragment.id ?? '';
+          call.name += fragment.function?.name ?? '';
+          call.arguments += fragment.function?.arguments ?? '';
+          toolCalls.set(fragment.index, call);
+        }
+      }
+
+      if (toolCalls.size > 0) {
+        yield { type: 'tool-calls', toolCalls: [...toolCalls.values()] };
+      }
+    },
+  };
+};
+
+/**
+ * Deterministic provider for tests and offline development.
+ * Echoes the last user message back word by word. A user message of the form
+ * `/tool <name> <json arguments>` calls that tool, and the tool's result is
+ * then echoed back.
+ */
+export const createMockProvider = (): LlmProvider => ({
+  name: 'mock',
+  isConfigured: () => true,
+  async *streamChat(request, signal) {
+    const lastMessage = request.messages[request.messages.length - 1];
+    const toolCommand = lastMessage?.role === 'user'
+      ? lastMessage.content.match(/^\/tool (\S+)\s*(.*)$/s)
+      : null;
+
+    if (toolCommand && request.tools?.some((tool) => tool.name === toolCommand[1])) {
+      yield {
+        type: 'tool-calls',
+        toolCalls: [{ id: `mock-${Date.now()}`, name: toolCommand[1], arguments: toolCommand[2] || '{}' }],
+      };
+      return;
+    }
+
+    const reply = lastMessage?.role === 'tool'
+      ? `Tool result: ${lastMessage.content}`
+      : `You said: ${[...request.messages].reverse().find((m) => m.role === 'user')?.content ?? ''}`;
+
+    for (const word of reply.split(/(?<=\s)/)) {
+      if (signal?.aborted) {
+        throw new Error('Request was aborted.');
+      }
+      yield { type: 'text', text: word };
+    }
+  },
+});
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Get the provider selected by AI_PROVIDER (openai, openai-compatible or mock)
+ */
+export const getLlmProvider = (): LlmProvider => {
+  if (!provider) {
+    const config = getAiConfig();
+
+    switch (config.provider) {
+      case 'mock':
+        provider = createMockProvider();
+        break;
+      case 'openai-compatible':
+        if (!config.baseURL) {
+          console.error('❌ AI_BASE_URL is required when AI_PROVIDER=openai-compatible');
+        }
+        provider = createOpenAiProvider({
+          name: 'openai-compatible',
+          apiKey: config.apiKey,
+          baseURL: config.baseURL,
+        });
+        break;
+      default:
+        if (!config.apiKey) {
+          console.error('❌ OPENAI_API_KEY is not set in environment variables');
+        }
+        provider = createOpenAiProvider({ name: 'openai', apiKey: config.apiKey });
+    }
+  }
+  return provider;
+};
+
+/**
+ * Generate a complete reply without streaming it anywhere
+ */
+export const completeChat = async (request: ChatRequest, signal?: AbortSignal) => {
+  let text = '';
+  for await (const event of getLlmProvider().streamChat(request, signal)) {
+    if (event.type === 'text') {
+      text += event.text;
+    }
+  }
+  return text;
+};
@@ -0,0 +1,38 @@
+import { getRateLimitStore } from '../services/rateLimit.js';
+
+// Tokens each user may spend per UTC day; 0 disables the quota
+const DAILY_TOKEN_QUOTA = Number(process.env.AI_DAILY_TOKEN_QUOTA ?? 50000);
+
+const msUntilUtcMidnight = () => {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return midnight - now.getTime();
+};
+
+const quotaKey = (userId: string) => `ai-tokens:${userId}:${new Date().toISOString().slice(0, 10)}`;
+
+/**
+ * Check whether the user still has AI tokens left today
+ */
+export const checkTokenQuota = async (userId: string) => {
+  if (DAILY_TOKEN_QUOTA <= 0) {
+    return { allowed: true, remaining: Infinity, retryAfterMs: 0 };
+  }
+
+  const used = await getRateLimitStore().get(quotaKey(userId));
+  return {
+    allowed: used < DAILY_TOKEN_QUOTA,
+    remaining: Math.max(DAILY_TOKEN_QUOTA - used, 0),
+    retryAfterMs: msUntilUtcMidnight(),
+  };
+};
+
+/**
+ * Count tokens spent by a generation against today's quota
+ */
+export const recordTokenUsage = async (userId: string, tokens: number) => {
+  if (DAILY_TOKEN_QUOTA <= 0 || tokens <= 0) {
+    return;
+  }
+  await getRateLimitStore().increment(quotaKey(userId), tokens, msUntilUtcMidnight());
+};
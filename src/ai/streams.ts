@@ -0,0 +1,71 @@
+import { randomUUID } from 'crypto';
+import { getMessageBus } from '../realtime/bus.js';
+
+interface ActiveStream {
+  userId: string;
+  chatSessionId: string;
+  controller: AbortController;
+}
+
+// Cancel requests for generations running on another instance
+const CANCEL_CHANNEL = 'ai-stream-cancel';
+
+// streamId -> in-flight AI generation on this instance
+const activeStreams = new Map<string, ActiveStream>();
+
+let listening: Promise<unknown> | null = null;
+
+/**
+ * Register a new AI generation so it can be cancelled by its owner
+ */
+export const startStream = (
+  userId: string,
+  chatSessionId: string
+): { streamId: string; signal: AbortSignal } => {
+  const streamId = randomUUID();
+  const controller = new AbortController();
+  activeStreams.set(streamId, { userId, chatSessionId, controller });
+  return { streamId, signal: controller.signal };
+};
+
+/**
+ * Abort a generation running on this instance. Only the user who started it
+ * may cancel it. Returns false when the stream is not running here.
+ */
+const abortLocalStream = (streamId: string, userId: string) => {
+  const stream = activeStreams.get(streamId);
+  if (!stream || stream.userId !== userId) {
+    return false;
+  }
+  stream.controller.abort();
+  return true;
+};
+
+/**
+ * Abort an in-flight generation, wherever it runs: when it is not on this
+ * instance the request is published on the message bus for the one that owns it.
+ */
+export const cancelStream = async (streamId: string, userId: string) => {
+  if (!abortLocalStream(streamId, userId)) {
+    await getMessageBus().publish(CANCEL_CHANNEL, { streamId, userId });
+  }
+};
+
+/**
+ * Abort this instance's generations when another instance relays a cancel.
+ * Safe to call once per server; the process subscribes only once.
+ */
+export const listenForStreamCancels = () => {
+  listening ??= getMessageBus()
+    .subscribe(CANCEL_CHANNEL, (message) => {
+      const { streamId, userId } = message as { streamId?: unknown; userId?: unknown };
+      if (typeof streamId === 'string' && typeof userId === 'string') {
+        abortLocalStream(streamId, userId);
+      }
+    })
+    .catch((error) => console.error('Stream cancel subscribe error:', error));
+};
+
+export const finishStream = (streamId: string) => {
+  activeStreams.delete(streamId);
+};
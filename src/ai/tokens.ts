@@ -0,0 +1,13 @@
+import { ChatMessage } from './providers.js';
+
+/**
+ * Rough token count (~4 characters per token for English text). Good enough
+ * for quotas and budgets without shipping a model-specific tokenizer.
+ */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Estimated prompt size, including a small per-message overhead for roles
+ */
+export const estimateMessageTokens = (messages: ChatMessage[]) =>
+  messages.reduce((total, message) => total + estimateTokens(message.content) + 4, 0);
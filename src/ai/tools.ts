@@ -0,0 +1,252 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { ToolCall, ToolDefinition } from './providers.js';
+import { searchMessages } from '../services/search.js';
+import { toolCallSelect } from '../services/messages.js';
+import { profileSelect, getContactIds, getCorrespondentIds, presentUser } from '../services/users.js';
+import { getBlockedUserIds } from '../services/blocks.js';
+import { getPresenceStore } from '../services/presence.js';
+import { createReminder } from '../services/reminders.js';
+import { DELETED_USER_ID } from '../services/accounts.js';
+
+const prisma = new PrismaClient();
+
+// Comma-separated tools the assistant may use; unset enables all, "none" disables them
+const ENABLED_TOOLS = process.env.AI_TOOLS?.trim();
+// Longest a single tool may run
+const TOOL_TIMEOUT_MS = 10_000;
+// Characters of a tool result passed back to the model
+const MAX_RESULT_CHARS = 4000;
+
+// Model turns per reply that may call tools; the turn after that must answer in text
+export const MAX_TOOL_ROUNDS = Number(process.env.AI_MAX_TOOL_ROUNDS ?? 4);
+// Tool calls run per turn; extra calls are answered with an error
+export const MAX_TOOL_CALLS_PER_ROUND = 5;
+
+/**
+ * Who a tool runs for: tools only ever see data this user can see
+ */
+export interface ToolContext {
+  userId: string;
+  chatSessionId: string;
+}
+
+/**
+ * A server-side function the assistant can call. `definition.parameters` is
+ * the JSON schema shown to the model; `schema` validates what it sends back.
+ */
+export interface AiTool<Args extends z.ZodTypeAny = z.ZodTypeAny> {
+  definition: ToolDefinition;
+  schema: Args;
+  run(args: z.infer<Args>, context: ToolContext): Promise<unknown>;
+}
+
+const tools = new Map<string, AiTool>();
+
+export const registerTool = <Args extends z.ZodTypeAny>(tool: AiTool<Args>) => {
+  tools.set(tool.definition.name, tool as AiTool);
+};
+
+const isEnabled = (name: string) => {
+  if (!ENABLED_TOOLS) {
+    return true;
+  }
+  return ENABLED_TOOLS.split(',').map((tool) => tool.trim()).includes(name);
+};
+
+/**
+ * Definitions of the tools offered to the model
+ */
+export const getToolDefinitions = () =>
+  [...tools.values()]
+    .filter((tool) => isEnabled(tool.definition.name))
+    .map((tool) => tool.definition);
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Tool timed out after ${ms / 1000}s`)), ms);
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (error) => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+/**
+ * Run one tool call and store it with its outcome. Failures (unknown tool,
+ * invalid arguments, errors thrown by the tool) are recorded and returned as
+ * `error`, so the model can see what went wrong and recover.
+ */
+export const executeToolCall = async (call: ToolCall, context: ToolContext) => {
+  const startedAt = Date.now();
+  const tool = tools.get(call.name);
+
+  let args: unknown = call.arguments;
+  let result: unknown = null;
+  let error: string | null = null;
+
+  try {
+    if (!tool || !isEnabled(call.name)) {
+      throw new Error(`Unknown tool: ${call.name}`);
+    }
+    try {
+      args = JSON.parse(call.arguments || '{}');
+    } catch {
+      throw new Error('Arguments are not valid JSON');
+    }
+    const parsed = tool.schema.safeParse(args);
+    if (!parsed.success) {
+      throw new Error(`Invalid arguments: ${parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`)
+        .join('; ')}`);
+    }
+    result = await withTimeout(tool.run(parsed.data, context), TOOL_TIMEOUT_MS);
+  } catch (toolError: any) {
+    error = toolError.message || 'Tool failed';
+  }
+
+  return prisma.aiToolCall.create({
+    data: {
+      chatSessionId: context.chatSessionId,
+      userId: context.userId,
+      callId: call.id,
+      name: call.name,
+      arguments: (args ?? {}) as Prisma.InputJsonValue,
+      // Round-trip through JSON so dates and other objects are stored as the model saw them
+      result: error ? Prisma.DbNull : result == null ? Prisma.JsonNull : JSON.parse(JSON.stringify(result)),
+      error,
+      durationMs: Date.now() - startedAt,
+    },
+    select: toolCallSelect,
+  });
+};
+
+/**
+ * What the model reads back from a stored tool call
+ */
+export const toolResultContent = (toolCall: { result: Prisma.JsonValue; error: string | null }) => {
+  const content = JSON.stringify(toolCall.error ? { error: toolCall.error } : toolCall.result);
+  return content.length > MAX_RESULT_CHARS ? `${content.slice(0, MAX_RESULT_CHARS)}…(truncated)` : content;
+};
+
+registerTool({
+  definition: {
+    name: 'search_messages',
+    description: "Full-text search over the messages in the user's conversations. Returns the best matches with their conversation, sender and time.",
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to search for' },
+        limit: { type: 'integer', minimum: 1, maximum: 10, description: 'Number of results (default 5)' },
+      },
+      required: ['query'],
+    },
+  },
+  schema: z.object({
+    query: z.string().trim().min(1).max(200),
+    limit: z.number().int().min(1).max(10).default(5),
+  }),
+  async run({ query, limit }, { userId }) {
+    const { results } = await searchMessages(userId, { query, limit, offset: 0 });
+    return results.map(({ message }) => ({
+      conversation: message.chatSession.name
+        ?? (message.chatSession.isGroup ? 'Group conversation' : 'Direct conversation'),
+      sessionId: message.chatSessionId,
+      sender: message.sender.name,
+      sentAt: message.createdAt,
+      text: message.content.slice(0, 500),
+    }));
+  },
+});
+
+registerTool({
+  definition: {
+    name: 'lookup_user',
+    description: 'Find people by name. Returns their profile, presence and whether they share a conversation with the user.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Full name or the start of it' },
+      },
+      required: ['name'],
+    },
+  },
+  schema: z.object({
+    name: z.string().trim().min(1).max(100),
+  }),
+  async run({ name }, { userId }) {
+    const blockedIds = await getBlockedUserIds(userId);
+    const users = await prisma.user.findMany({
+      where: {
+        id: { notIn: [DELETED_USER_ID, ...blockedIds] },
+        isBot: false,
+        name: { contains: name, mode: 'insensitive' },
+      },
+      select: profileSelect,
+      orderBy: { name: 'asc' },
+      take: 5,
+    });
+
+    const contactIds = await getContactIds(userId);
+    const correspondentIds = await getCorrespondentIds(userId);
+    const presence = getPresenceStore();
+
+    return Promise.all(users.map(async (user) => ({
+      ...presentUser(user, userId, correspondentIds),
+      isContact: contactIds.includes(user.id),
+      presence: await presence.getPresence(user.id),
+    })));
+  },
+});
+
+registerTool({
+  definition: {
+    name: 'get_current_time',
+    description: 'Get the current date and time, optionally in an IANA time zone such as "Europe/Paris".',
+    parameters: {
+      type: 'object',
+      properties: {
+        timeZone: { type: 'string', description: 'IANA time zone (default UTC)' },
+      },
+    },
+  },
+  schema: z.object({
+    timeZone: z.string().max(100).default('UTC'),
+  }),
+  async run({ timeZone }) {
+    const now = new Date();
+    let local: string;
+    try {
+      local = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' });
+    } catch {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+    return { iso: now.toISOString(), timeZone, local };
+  },
+});
+
+registerTool({
+  definition: {
+    name: 'create_reminder',
+    description: 'Remind the user of something later. The reminder is posted in this conversation when due. Give either remindAt or inMinutes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'What to remind the user of' },
+        remindAt: { type: 'string', description: 'ISO 8601 date and time with offset, e.g. 2025-01-31T09:00:00+01:00' },
+        inMinutes: { type: 'integer', minimum: 1, description: 'Minutes from now' },
+      },
+      required: ['text'],
+    },
+  },
+  schema: z.object({
+    text: z.string().trim().min(1).max(500),
+    remindAt: z.string().datetime({ offset: true }).optional(),
+    inMinutes: z.number().int().min(1).optional(),
+  }).refine((args) => Boolean(args.remindAt) !== (args.inMinutes !== undefined), {
+    message: 'Give either remindAt or inMinutes',
+  }),
+  async run({ text, remindAt, inMinutes }, { userId, chatSessionId }) {
+    const when = remindAt ? new Date(remindAt) : new Date(Date.now() + inMinutes! * 60 * 1000);
+    return createReminder(userId, chatSessionId, text, when);
+  },
+});
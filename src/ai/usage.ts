@@ -0,0 +1,55 @@
+import { PrismaClient, AiUsagePurpose } from '@prisma/client';
+import { recordTokenUsage } from './quota.js';
+
+const prisma = new PrismaClient();
+
+export interface AiUsageRecord {
+  userId: string;
+  chatSessionId: string;
+  messageId?: string | null;
+  purpose: AiUsagePurpose;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cancelled?: boolean;
+}
+
+/**
+ * Persist the estimated tokens of one AI request and count them against the
+ * user's daily quota
+ */
+export const recordAiUsage = async (usage: AiUsageRecord) => {
+  await recordTokenUsage(usage.userId, usage.promptTokens + usage.completionTokens);
+  return prisma.aiUsage.create({
+    data: { ...usage, cancelled: usage.cancelled ?? false },
+  });
+};
+
+/**
+ * Latest AI requests of a user in a session, with totals for the whole session
+ */
+export const getSessionUsage = async (userId: string, chatSessionId: string, limit: number) => {
+  const where = { userId, chatSessionId };
+
+  const [requests, totals] = await Promise.all([
+    prisma.aiUsage.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    }),
+    prisma.aiUsage.aggregate({
+      where,
+      _count: true,
+      _sum: { promptTokens: true, completionTokens: true },
+    }),
+  ]);
+
+  return {
+    requests,
+    totals: {
+      requests: totals._count,
+      promptTokens: totals._sum.promptTokens ?? 0,
+      completionTokens: totals._sum.completionTokens ?? 0,
+    },
+  };
+};
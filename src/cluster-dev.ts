@@ -0,0 +1,16 @@
+// Load .env before any other module: many read their settings when imported
+import 'dotenv/config';
+import { createAppServer } from './server.js';
+
+// Run two instances in one process to exercise the multi-instance code paths
+// locally. With the default in-memory driver they share presence and relay
+// broadcasts through the in-process bus; set REALTIME_DRIVER=redis to go
+// through Redis instead.
+const basePort = Number(process.env.PORT || 3001);
+
+for (const port of [basePort, basePort + 1]) {
+  const { httpServer } = createAppServer();
+  httpServer.listen(port, () => {
+    console.log(`🚀 Instance running on port ${port}`);
+  });
+}
@@ -115,3 +115,24 @@ export const authenticateToken = async (
   }
 };
 
+// Comma-separated ids of the users who may review reported messages
+const ADMIN_USER_IDS = (process.env.ADMIN_USER_IDS ?? '')
+  .split(',')
+  .map((id) => id.trim())
+  .filter(Boolean);
+
+export const isAdmin = (userId: string) => ADMIN_USER_IDS.includes(userId);
+
+/**
+ * Middleware for admin-only routes; use after authenticateToken
+ */
+export const requireAdmin = (
+  req: AuthRequest,
+  res: express.Response,
+  next: express.NextFunction
+) => {
+  if (!req.userId || !isAdmin(req.userId)) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  next();
+};
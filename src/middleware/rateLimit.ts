@@ -0,0 +1,35 @@
+import express from 'express';
+import { consume, BudgetName } from '../services/rateLimit.js';
+import { AuthRequest } from './auth.js';
+
+/**
+ * Rate limit a route against a named budget.
+ *
+ * Keyed by the authenticated user when there is one (so place it after
+ * authenticateToken), otherwise by client IP. Limited requests get a 429 with
+ * Retry-After. If the counter store is unreachable the request is let through.
+ */
+export const rateLimit = (budgetName: BudgetName, keyBy: 'user' | 'ip' = 'user') => {
+  return async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    const key = keyBy === 'user' && req.userId ? `user:${req.userId}` : `ip:${req.ip}`;
+
+    try {
+      const result = await consume(budgetName, key);
+
+      if (Number.isFinite(result.remaining)) {
+        res.setHeader('RateLimit-Remaining', result.remaining);
+        res.setHeader('RateLimit-Reset', Math.ceil(result.retryAfterMs / 1000));
+      }
+
+      if (!result.allowed) {
+        const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+        res.setHeader('Retry-After', retryAfter);
+        return res.status(429).json({ error: 'Too many requests', retryAfter });
+      }
+    } catch (error) {
+      console.error('Rate limit error:', error);
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,66 @@
+import {
+  ClusterAdapterWithHeartbeat,
+  ClusterAdapterOptions,
+  ClusterMessage,
+  ClusterResponse,
+  ServerId,
+} from 'socket.io-adapter';
+import type { Namespace } from 'socket.io';
+import { MessageBus } from './bus.js';
+
+const channelPrefix = (nspName: string) => `socket.io#${nspName}#`;
+
+/**
+ * Socket.IO adapter that relays broadcasts, room operations and fetchSockets()
+ * between server instances over a MessageBus
+ */
+class BusAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly channel: string;
+  private readonly unsubscribers: Array<Promise<() => Promise<void>>>;
+
+  constructor(nsp: Namespace, private readonly bus: MessageBus, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+    this.channel = channelPrefix(nsp.name);
+    this.unsubscribers = [
+      // Only adapters of this namespace publish on these channels
+      bus.subscribe(this.channel, (message) => this.onMessage(message as ClusterMessage)),
+      bus.subscribe(this.responseChannel(this.uid), (response) => this.onResponse(response as ClusterResponse)),
+    ];
+
+    // Announce this node once subscribed, so the others can count it for
+    // fetchSockets()/serverSideEmit(). Socket.IO 4.8 does not call init() itself.
+    Promise.all(this.unsubscribers)
+      .then(() => this.init())
+      .catch((error) => console.error('Adapter subscribe error:', error));
+  }
+
+  private responseChannel(uid: ServerId) {
+    return `${this.channel}${uid}#`;
+  }
+
+  protected async doPublish(message: ClusterMessage) {
+    await this.bus.publish(this.channel, message);
+    // Plain pub/sub has no offsets (no connection state recovery)
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse) {
+    await this.bus.publish(this.responseChannel(requesterUid), response);
+  }
+
+  close() {
+    super.close();
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe.then((fn) => fn()).catch((error) => console.error('Adapter close error:', error));
+    }
+  }
+}
+
+/**
+ * Build an adapter constructor for `io.adapter(...)`
+ */
+export const createBusAdapter = (bus: MessageBus, opts: ClusterAdapterOptions = {}) => {
+  return function (nsp: Namespace) {
+    return new BusAdapter(nsp, bus, opts);
+  };
+};
@@ -0,0 +1,108 @@
+import { EventEmitter } from 'events';
+import { createRedisClient } from './redis.js';
+
+// Payloads arrive parsed from JSON; handlers check or narrow them
+type Handler = (message: unknown) => void;
+
+/**
+ * Minimal publish/subscribe transport shared by every server instance.
+ * Messages must be JSON-serializable.
+ */
+export interface MessageBus {
+  publish(channel: string, message: unknown): Promise<void>;
+  /** Returns a function that removes the subscription */
+  subscribe(channel: string, handler: Handler): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process bus. Every Socket.IO server in the same process that uses the
+ * same bus behaves like a separate node of a cluster, which makes it possible
+ * to run two instances side by side without Redis.
+ */
+export const createMemoryBus = (): MessageBus => {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+
+  return {
+    async publish(channel, message) {
+      // Round-trip through JSON and deliver asynchronously, as a network bus would
+      const payload = JSON.stringify(message);
+      setImmediate(() => emitter.emit(channel, JSON.parse(payload)));
+    },
+    async subscribe(channel, handler) {
+      emitter.on(channel, handler);
+      return async () => {
+        emitter.off(channel, handler);
+      };
+    },
+    async close() {
+      emitter.removeAllListeners();
+    },
+  };
+};
+
+/**
+ * Bus backed by Redis pub/sub. Uses a dedicated connection for subscribing,
+ * as Redis requires.
+ */
+export const createRedisBus = (url?: string): MessageBus => {
+  const publisher = createRedisClient(url);
+  const subscriber = createRedisClient(url);
+  const handlers = new Map<string, Set<Handler>>();
+
+  subscriber.on('message', (channel: string, payload: string) => {
+    const channelHandlers = handlers.get(channel);
+    if (!channelHandlers) {
+      return;
+    }
+    let message: unknown;
+    try {
+      message = JSON.parse(payload);
+    } catch (error) {
+      console.error('Invalid bus message:', error);
+      return;
+    }
+    for (const handler of channelHandlers) {
+      handler(message);
+    }
+  });
+
+  return {
+    async publish(channel, message) {
+      await publisher.publish(channel, JSON.stringify(message));
+    },
+    async subscribe(channel, handler) {
+      if (!handlers.has(channel)) {
+        handlers.set(channel, new Set());
+        await subscriber.subscribe(channel);
+      }
+      handlers.get(channel)!.add(handler);
+
+      return async () => {
+        const channelHandlers = handlers.get(channel);
+        channelHandlers?.delete(handler);
+        if (channelHandlers && channelHandlers.size === 0) {
+          handlers.delete(channel);
+          await subscriber.unsubscribe(channel);
+        }
+      };
+    },
+    async close() {
+      handlers.clear();
+      await Promise.all([publisher.quit(), subscriber.quit()]);
+    },
+  };
+};
+
+let bus: MessageBus | null = null;
+
+/**
+ * Get the bus selected by REALTIME_DRIVER (memory or redis)
+ */
+export const getMessageBus = (): MessageBus => {
+  if (!bus) {
+    bus = process.env.REALTIME_DRIVER === 'redis' ? createRedisBus() : createMemoryBus();
+  }
+  return bus;
+};
@@ -0,0 +1,10 @@
+import { Redis } from 'ioredis';
+
+/**
+ * Connect to any Redis-compatible server (Redis, Valkey, KeyDB, Dragonfly...)
+ */
+export const createRedisClient = (url = process.env.REDIS_URL || 'redis://localhost:6379') => {
+  const client = new Redis(url, { maxRetriesPerRequest: null });
+  client.on('error', (error) => console.error('Redis error:', error));
+  return client;
+};
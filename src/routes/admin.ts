@@ -0,0 +1,59 @@
+import express from 'express';
+import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { z } from 'zod';
+import { listReports, reviewReport, ReportError } from '../services/reports.js';
+
+const router = express.Router();
+
+const reportListSchema = z.object({
+  status: z.enum(['OPEN', 'DISMISSED', 'ACTIONED']).default('OPEN'),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const reviewSchema = z.object({
+  status: z.enum(['DISMISSED', 'ACTIONED']),
+  removeMessage: z.boolean().default(false),
+});
+
+// The review queue of reported and automatically flagged messages, oldest first
+router.get('/reports', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    const { status, limit, offset } = reportListSchema.parse(req.query);
+
+    const rows = await listReports({ status, limit, offset });
+    const hasMore = rows.length > limit;
+
+    res.json({
+      reports: rows.slice(0, limit),
+      hasMore,
+      nextOffset: hasMore ? offset + limit : null,
+    });
+  } catch (error) {
+    console.error('List reports error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Dismiss a report, or act on it and optionally remove the message for everyone
+router.patch('/reports/:reportId', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  try {
+    const decision = reviewSchema.parse(req.body);
+
+    res.json(await reviewReport(req.userId!, req.params.reportId, decision));
+  } catch (error) {
+    console.error('Review report error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof ReportError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,270 +1,742 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
 import { z } from 'zod';
-import OpenAI from 'openai';
-import bcrypt from 'bcryptjs';
-import { getSocketInstance } from '../socketInstance.js';
+import { emitToUsers } from '../socketInstance.js';
+import { startStream, finishStream } from '../ai/streams.js';
+import { getLlmProvider, ChatMessage, ToolCall } from '../ai/providers.js';
+import {
+  getToolDefinitions,
+  executeToolCall,
+  toolResultContent,
+  MAX_TOOL_ROUNDS,
+  MAX_TOOL_CALLS_PER_ROUND,
+} from '../ai/tools.js';
+import { aiSettingsSchema, AiSettings, AI_USER_ID, mergeAiOverrides } from '../ai/config.js';
+import { checkTokenQuota } from '../ai/quota.js';
+import { buildContext, compactMemory, describeMemory, clearMemory } from '../ai/context.js';
+import { recordAiUsage, getSessionUsage } from '../ai/usage.js';
+import {
+  aiSessionInclude,
+  findAiConversation,
+  conversationSettings,
+  createAiConversation,
+  listAiConversations,
+  generateTitle,
+  ensureAssistantUser,
+  MAX_TITLE_LENGTH,
+} from '../ai/conversations.js';
+import { ChatAssistantError, summarizeChat, suggestReply } from '../ai/chatAssistant.js';
+import {
+  PersonaError,
+  listPersonas,
+  getPersona,
+  createPersona,
+  updatePersona,
+  deletePersona,
+} from '../ai/personas.js';
+import { estimateTokens, estimateMessageTokens } from '../ai/tokens.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { getMessagePage, messageInclude, presentMessages } from '../services/messages.js';
+import { pushUnreadCounts } from '../services/unread.js';
+import { unarchiveSession } from '../services/sessionSettings.js';
+import { ReminderError, listPendingReminders, cancelReminder } from '../services/reminders.js';
+import { moderateContent, moderateBotContent, applyModerationRules, flagMessage } from '../services/moderation.js';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Trim whitespace and remove quotes from API key
-const apiKey = process.env.OPENAI_API_KEY?.trim().replace(/^["']|["']$/g, '');
-if (!apiKey) {
-  console.error('❌ OPENAI_API_KEY is not set in environment variables');
-}
-
-const openai = new OpenAI({
-  apiKey: apiKey,
-});
-
 const aiMessageSchema = z.object({
   content: z.string().min(1),
   chatSessionId: z.string().optional(),
+  // Set to false to wait for the full reply instead of streaming it over the socket
+  stream: z.boolean().optional().default(true),
+});
+
+// null clears a session override and falls back to the deployment default
+const aiSettingsUpdateSchema = z.object({
+  model: aiSettingsSchema.shape.model.nullable().optional(),
+  systemPrompt: aiSettingsSchema.shape.systemPrompt.nullable().optional(),
+  maxTokens: aiSettingsSchema.shape.maxTokens.nullable().optional(),
+  temperature: aiSettingsSchema.shape.temperature.nullable().optional(),
+});
+
+const usageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const conversationListSchema = z.object({
+  personaId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const titleSchema = z.string().trim().min(1).max(MAX_TITLE_LENGTH);
+
+const conversationCreateSchema = z.object({
+  // Talk to one of your personas instead of the default assistant
+  personaId: z.string().optional(),
+  title: titleSchema.optional(),
+});
+
+// null lets the assistant title the conversation again after its next reply
+const conversationUpdateSchema = z.object({
+  title: titleSchema.nullable(),
+});
+
+const personaNameSchema = z.string().trim().min(1).max(50);
+const personaPictureSchema = z.string().url().max(2048);
+
+const personaCreateSchema = aiSettingsSchema.partial().extend({
+  name: personaNameSchema,
+  picture: personaPictureSchema.optional(),
+  systemPrompt: aiSettingsSchema.shape.systemPrompt,
+});
+
+const personaUpdateSchema = aiSettingsUpdateSchema.extend({
+  name: personaNameSchema.optional(),
+  picture: personaPictureSchema.nullable().optional(),
 });
 
-// Special AI user ID constant
-const AI_USER_ID = 'ai-assistant';
+/**
+ * Stream an AI reply to the user's sockets and persist it once complete.
+ *
+ * Emits `ai-stream-start`, then `ai-stream-delta` as text is generated, and
+ * finally `ai-stream-done` with the saved message and its estimated token
+ * usage (or `ai-stream-error`). Deltas pass the moderation rules first: masked
+ * words go out masked, and a blocked reply stops the stream and is saved as a
+ * notice. When the model calls tools, each call is announced with
+ * `ai-tool-call`, run and stored, reported with `ai-tool-result`, and the
+ * model continues with the results, for at most AI_MAX_TOOL_ROUNDS turns. If
+ * the user cancels mid-stream, generation stops and the partial text is saved.
+ * Older turns are then folded into the session's running summary in the
+ * background, and untitled conversations get a title.
+ */
+const streamAiReply = async (
+  userId: string,
+  conversation: { id: string; botId: string | null; name: string | null },
+  prompt: ChatMessage[],
+  settings: AiSettings,
+  streamId: string,
+  signal: AbortSignal
+) => {
+  const chatSessionId = conversation.id;
+  const tools = getToolDefinitions();
+  const messages = [...prompt];
+  const toolCalls: Array<{ id: string }> = [];
+  let aiResponse = '';
+  let cancelled = false;
+  let promptTokens = 0;
+  let toolCallTokens = 0;
+  let sentLength = 0;
+  let withheld = false;
+
+  // Send the moderated reply up to its last whitespace, holding back the word
+  // still being generated so a masked word never goes out in pieces
+  const sendModerated = (complete: boolean) => {
+    const moderation = applyModerationRules(aiResponse);
+    if (moderation.blocked) {
+      withheld = true;
+      return;
+    }
+    const end = complete ? moderation.content.length : moderation.content.search(/\s\S*$/) + 1;
+    if (end > sentLength) {
+      emitToUsers([userId], 'ai-stream-delta', {
+        streamId,
+        chatSessionId,
+        delta: moderation.content.slice(sentLength, end),
+      });
+      sentLength = end;
+    }
+  };
+
+  emitToUsers([userId], 'ai-stream-start', { streamId, chatSessionId });
+
+  try {
+    for (let round = 0; ; round++) {
+      // The last turn gets no tools, so the model has to answer in text
+      const offerTools = tools.length > 0 && round < MAX_TOOL_ROUNDS;
+      let roundText = '';
+      let requested: ToolCall[] = [];
+
+      promptTokens += estimateMessageTokens(messages);
+      const events = getLlmProvider().streamChat({
+        model: settings.model,
+        messages,
+        maxTokens: settings.maxTokens,
+        temperature: settings.temperature,
+        tools: offerTools ? tools : undefined,
+      }, signal);
+
+      for await (const event of events) {
+        if (event.type === 'tool-calls') {
+          // Calls made without being offered tools are ignored, so the loop ends
+          requested = offerTools ? event.toolCalls : [];
+          continue;
+        }
+        roundText += event.text;
+        aiResponse += event.text;
+        sendModerated(false);
+        if (withheld) {
+          break;
+        }
+      }
+
+      if (!withheld) {
+        sendModerated(true);
+      }
+      if (withheld || requested.length === 0) {
+        break;
+      }
+
+      messages.push({ role: 'assistant', content: roundText, toolCalls: requested });
+      for (const [index, call] of requested.entries()) {
+        toolCallTokens += estimateTokens(call.name + call.arguments);
+
+        if (index >= MAX_TOOL_CALLS_PER_ROUND) {
+          messages.push({
+            role: 'tool',
+            toolCallId: call.id,
+            content: JSON.stringify({ error: 'Skipped: too many tool calls at once' }),
+          });
+          continue;
+        }
+
+        emitToUsers([userId], 'ai-tool-call', {
+          streamId,
+          chatSessionId,
+          toolCall: { callId: call.id, name: call.name, arguments: call.arguments },
+        });
+        const toolCall = await executeToolCall(call, { userId, chatSessionId });
+        toolCalls.push(toolCall);
+        emitToUsers([userId], 'ai-tool-result', { streamId, chatSessionId, callId: call.id, toolCall });
 
-// Get or create AI chat session
+        messages.push({ role: 'tool', toolCallId: call.id, content: toolResultContent(toolCall) });
+      }
+    }
+  } catch (error: any) {
+    if (!signal.aborted) {
+      console.error('AI provider error:', error);
+      finishStream(streamId);
+      const message = error.message || 'Failed to generate AI response. Please check your OpenAI API key.';
+      emitToUsers([userId], 'ai-stream-error', { streamId, chatSessionId, error: message });
+      throw error;
+    }
+    cancelled = true;
+  }
+
+  finishStream(streamId);
+
+  // Cancelled generations still spent tokens up to the point they stopped
+  const usage = {
+    promptTokens,
+    completionTokens: estimateTokens(aiResponse) + toolCallTokens,
+  };
+  const saveUsage = (messageId: string | null) =>
+    recordAiUsage({ userId, chatSessionId, messageId, purpose: 'REPLY', model: settings.model, cancelled, ...usage })
+      .catch((error) => console.error('Token usage error:', error));
+
+  // Nothing worth keeping if the user cancelled before the first token
+  if (cancelled && !aiResponse) {
+    saveUsage(null);
+    emitToUsers([userId], 'ai-stream-done', { streamId, chatSessionId, message: null, cancelled, usage });
+    return null;
+  }
+
+  // Save AI response. The stored copy (sent with ai-stream-done) also goes
+  // through the classifier, which cannot run on a partial reply.
+  const moderation = aiResponse ? await moderateBotContent(aiResponse) : null;
+  const savedMessage = await prisma.message.create({
+    data: {
+      content: moderation?.content || 'Sorry, I could not generate a response.',
+      senderId: conversation.botId ?? AI_USER_ID,
+      receiverId: userId,
+      chatSessionId,
+      toolCalls: {
+        connect: toolCalls.map(({ id }) => ({ id })),
+      },
+    },
+    include: messageInclude,
+  });
+  await flagMessage(savedMessage.id, moderation?.flags ?? []);
+  const [aiMessage] = await presentMessages([savedMessage]);
+  saveUsage(aiMessage.id);
+
+  // Update session
+  await prisma.chatSession.update({
+    where: { id: chatSessionId },
+    data: { updatedAt: new Date() },
+  });
+  await unarchiveSession(chatSessionId, [userId]);
+
+  emitToUsers([userId], 'ai-stream-done', { streamId, chatSessionId, message: aiMessage, cancelled, usage });
+  emitToUsers([userId], 'new-message', aiMessage);
+  pushUnreadCounts([userId], chatSessionId);
+
+  compactMemory(chatSessionId, userId, settings)
+    .catch((error) => console.error('AI memory error:', error));
+  if (!conversation.name) {
+    generateTitle(chatSessionId, userId, settings)
+      .catch((error) => console.error('AI title error:', error));
+  }
+
+  return { message: aiMessage, usage };
+};
+
+// Get the latest conversation with the default assistant, creating one if needed
 router.post('/session', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const currentUserId = req.userId!;
 
-    // Check if AI user exists, if not create it
-    let aiUser = await prisma.user.findUnique({
-      where: { id: AI_USER_ID },
+    await ensureAssistantUser();
+
+    let session = await prisma.chatSession.findFirst({
+      where: { participant1Id: currentUserId, botId: AI_USER_ID },
+      include: aiSessionInclude,
+      orderBy: { updatedAt: 'desc' },
     });
 
-    if (!aiUser) {
-      // Create AI user with a dummy password (never used for login)
-      const hashedPassword = await bcrypt.hash('ai-user-no-login', 10);
-      
-      await prisma.user.create({
-        data: {
-          id: AI_USER_ID,
-          email: 'ai@assistant.com',
-          name: 'AI Assistant',
-          password: hashedPassword,
-          emailVerified: false,
-          picture: 'https://ui-avatars.com/api/?name=AI&background=6366f1&color=fff',
-        },
-      });
-      
-      // Fetch the created user
-      aiUser = await prisma.user.findUnique({
-        where: { id: AI_USER_ID },
-      });
+    if (!session) {
+      session = await createAiConversation(currentUserId, AI_USER_ID);
     }
 
-    // Check if session exists
-    let session = await prisma.chatSession.findFirst({
-      where: {
-        OR: [
-          { participant1Id: currentUserId, participant2Id: AI_USER_ID },
-          { participant1Id: AI_USER_ID, participant2Id: currentUserId },
-        ],
-      },
-      include: {
-        participant1: {
-          select: { id: true, name: true, picture: true, email: true },
-        },
-        participant2: {
-          select: { id: true, name: true, picture: true, email: true },
-        },
-        messages: {
-          orderBy: { createdAt: 'asc' },
-          include: {
-            sender: {
-              select: { id: true, name: true, picture: true },
-            },
-            receiver: {
-              select: { id: true, name: true, picture: true },
-            },
-          },
-        },
-      },
+    const { messages, hasMore, nextCursor } = await getMessagePage(session.id, currentUserId);
+
+    res.json({ ...session, messages, hasMoreMessages: hasMore, nextCursor });
+  } catch (error) {
+    console.error('Get/create AI session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List the user's AI conversations, most recently active first
+router.get('/sessions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { personaId, limit, offset } = conversationListSchema.parse(req.query);
+
+    const botId = personaId ? (await getPersona(currentUserId, personaId)).bot.id : undefined;
+    const rows = await listAiConversations(currentUserId, { botId, limit, offset });
+    const hasMore = rows.length > limit;
+
+    res.json({
+      sessions: rows.slice(0, limit),
+      hasMore,
+      nextOffset: hasMore ? offset + limit : null,
     });
+  } catch (error) {
+    console.error('List AI sessions error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof PersonaError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Start a new AI conversation, with the default assistant or one of the user's personas
+router.post('/sessions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { personaId, title } = conversationCreateSchema.parse(req.body);
+
+    let botId = AI_USER_ID;
+    if (personaId) {
+      botId = (await getPersona(currentUserId, personaId)).bot.id;
+    } else {
+      await ensureAssistantUser();
+    }
+
+    const session = await createAiConversation(currentUserId, botId, title);
+
+    res.status(201).json({ ...session, messages: [], hasMoreMessages: false, nextCursor: null });
+  } catch (error) {
+    console.error('Create AI session error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof PersonaError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Rename an AI conversation
+router.patch('/session/:sessionId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { title } = conversationUpdateSchema.parse(req.body);
+    const session = await findAiConversation(req.params.sessionId, currentUserId);
 
-    // Create session if it doesn't exist
     if (!session) {
-      session = await prisma.chatSession.create({
-        data: {
-          participant1Id: currentUserId,
-          participant2Id: AI_USER_ID,
-        },
-        include: {
-          participant1: {
-            select: { id: true, name: true, picture: true, email: true },
-          },
-          participant2: {
-            select: { id: true, name: true, picture: true, email: true },
-          },
-          messages: {
-            orderBy: { createdAt: 'asc' },
-            include: {
-              sender: {
-                select: { id: true, name: true, picture: true },
-              },
-              receiver: {
-                select: { id: true, name: true, picture: true },
-              },
-            },
-          },
-        },
-      });
+      return res.status(404).json({ error: 'AI chat session not found' });
     }
 
-    res.json(session);
+    const updated = await prisma.chatSession.update({
+      where: { id: session.id },
+      data: { name: title },
+      include: aiSessionInclude,
+    });
+
+    emitToUsers([currentUserId], 'ai-session-updated', { sessionId: session.id, title });
+
+    res.json(updated);
   } catch (error) {
-    console.error('Get/create AI session error:', error);
+    console.error('Rename AI session error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete an AI conversation and its messages
+router.delete('/session/:sessionId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const session = await findAiConversation(req.params.sessionId, currentUserId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'AI chat session not found' });
+    }
+
+    await prisma.chatSession.delete({ where: { id: session.id } });
+
+    emitToUsers([currentUserId], 'ai-session-deleted', { sessionId: session.id });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete AI session error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Send message to AI
-router.post('/message', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/message', authenticateToken, rateLimit('ai'), async (req: AuthRequest, res) => {
   try {
     const currentUserId = req.userId!;
-    const { content, chatSessionId } = aiMessageSchema.parse(req.body);
+    const { content, chatSessionId, stream } = aiMessageSchema.parse(req.body);
 
     if (!chatSessionId) {
       return res.status(400).json({ error: 'Chat session ID required' });
     }
 
+    const quota = await checkTokenQuota(currentUserId);
+    if (!quota.allowed) {
+      const retryAfter = Math.ceil(quota.retryAfterMs / 1000);
+      res.setHeader('Retry-After', retryAfter);
+      return res.status(429).json({ error: 'Daily AI token quota exceeded', retryAfter });
+    }
+
     // Verify session belongs to user and is with AI
-    const session = await prisma.chatSession.findFirst({
-      where: {
-        id: chatSessionId,
-        OR: [
-          { participant1Id: currentUserId, participant2Id: AI_USER_ID },
-          { participant1Id: AI_USER_ID, participant2Id: currentUserId },
-        ],
-      },
-    });
+    const session = await findAiConversation(chatSessionId, currentUserId);
 
     if (!session) {
       return res.status(404).json({ error: 'AI chat session not found' });
     }
 
+    // Checked before saving, so the message is not stored without a reply
+    if (!getLlmProvider().isConfigured()) {
+      console.error('❌ AI provider is not configured');
+      return res.status(500).json({ 
+        error: 'AI service is not configured. Please check your AI provider settings.' 
+      });
+    }
+
+    const moderation = await moderateContent(content);
+    if (moderation.blocked) {
+      return res.status(422).json({ error: 'This message was blocked by content moderation' });
+    }
+
     // Save user message
-    const userMessage = await prisma.message.create({
+    const savedMessage = await prisma.message.create({
       data: {
-        content,
+        content: moderation.content,
         senderId: currentUserId,
-        receiverId: AI_USER_ID,
+        receiverId: session.botId,
         chatSessionId,
       },
-      include: {
-        sender: {
-          select: { id: true, name: true, picture: true },
-        },
-        receiver: {
-          select: { id: true, name: true, picture: true },
-        },
-      },
+      include: messageInclude,
     });
+    await flagMessage(savedMessage.id, moderation.flags);
+    const [userMessage] = await presentMessages([savedMessage]);
 
-    // Get conversation history for context
-    const conversationHistory = await prisma.message.findMany({
-      where: { chatSessionId },
-      orderBy: { createdAt: 'asc' },
-      take: 10, // Last 10 messages for context
-    });
+    const settings = conversationSettings(session);
+    // The new message is already saved, so it ends the recent history
+    const { prompt } = await buildContext(session, currentUserId, settings);
 
-    // Build messages array for OpenAI
-    const messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }> = conversationHistory.map((msg) => ({
-      role: (msg.senderId === AI_USER_ID ? 'assistant' : 'user') as 'user' | 'assistant',
-      content: msg.content,
-    }));
+    emitToUsers([currentUserId], 'new-message', userMessage);
 
-    // Add current message
-    messages.push({
-      role: 'user' as const,
-      content,
-    });
+    const { streamId, signal } = startStream(currentUserId, chatSessionId);
 
-    // Call OpenAI API
-    if (!openai.apiKey) {
-      console.error('❌ OpenAI API key is not configured');
-      return res.status(500).json({ 
-        error: 'AI service is not configured. Please check your OpenAI API key.' 
-      });
+    if (stream) {
+      // Reply arrives over the socket; errors are reported there as ai-stream-error
+      streamAiReply(currentUserId, session, prompt, settings, streamId, signal)
+        .catch((error) => console.error('AI stream error:', error));
+
+      return res.status(202).json({ userMessage, streamId });
     }
 
-    let completion;
+    let reply;
     try {
-      completion = await openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful AI assistant. Be concise and friendly in your responses.',
-          },
-          ...messages,
-        ],
-        max_tokens: 500,
-        temperature: 0.7,
-      });
+      reply = await streamAiReply(currentUserId, session, prompt, settings, streamId, signal);
     } catch (error: any) {
-      console.error('OpenAI API error:', error);
       return res.status(500).json({ 
         error: error.message || 'Failed to generate AI response. Please check your OpenAI API key.' 
       });
     }
 
-    const aiResponse = completion.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
-
-    // Save AI response
-    const aiMessage = await prisma.message.create({
-      data: {
-        content: aiResponse,
-        senderId: AI_USER_ID,
-        receiverId: currentUserId,
-        chatSessionId,
-      },
-      include: {
-        sender: {
-          select: { id: true, name: true, picture: true },
-        },
-        receiver: {
-          select: { id: true, name: true, picture: true },
-        },
-      },
+    res.json({
+      userMessage,
+      aiMessage: reply?.message ?? null,
+      usage: reply?.usage ?? null,
     });
+  } catch (error) {
+    console.error('AI message error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to get AI response' });
+  }
+});
+
+// Get the effective AI settings for a session
+router.get('/session/:sessionId/settings', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId } = req.params;
+
+    const session = await findAiConversation(sessionId, currentUserId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'AI chat session not found' });
+    }
 
-    // Update session
-    await prisma.chatSession.update({
-      where: { id: chatSessionId },
-      data: { updatedAt: new Date() },
+    res.json({
+      provider: getLlmProvider().name,
+      settings: conversationSettings(session),
+      overrides: session.aiSettings ?? {},
     });
+  } catch (error) {
+    console.error('Get AI settings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Emit messages via socket
-    const io = getSocketInstance();
-    if (io && io.sockets) {
-      // Find user's socket
-      const userSocket = Array.from(io.sockets.sockets.values())
-        .find((socket: any) => socket.userId === currentUserId) as any;
-      
-      if (userSocket && userSocket.emit) {
-        userSocket.emit('new-message', userMessage);
-        userSocket.emit('new-message', aiMessage);
-      }
+// Override model, system prompt and limits for a session (null clears an override)
+router.patch('/session/:sessionId/settings', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId } = req.params;
+    const updates = aiSettingsUpdateSchema.parse(req.body);
+
+    const session = await findAiConversation(sessionId, currentUserId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'AI chat session not found' });
     }
 
+    const overrides = mergeAiOverrides(session.aiSettings, updates);
+
+    const updated = await prisma.chatSession.update({
+      where: { id: sessionId },
+      data: { aiSettings: overrides as Prisma.InputJsonObject },
+    });
+
     res.json({
-      userMessage,
-      aiMessage,
+      provider: getLlmProvider().name,
+      settings: conversationSettings({ ...session, aiSettings: updated.aiSettings }),
+      overrides,
     });
   } catch (error) {
-    console.error('AI message error:', error);
+    console.error('Update AI settings error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// What the assistant remembers: the running summary and the recent messages it still sees
+router.get('/session/:sessionId/memory', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const session = await findAiConversation(req.params.sessionId, currentUserId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'AI chat session not found' });
+    }
+
+    res.json(await describeMemory(session, currentUserId, conversationSettings(session)));
+  } catch (error) {
+    console.error('Get AI memory error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Make the assistant forget the conversation so far; messages stay visible
+router.delete('/session/:sessionId/memory', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const session = await findAiConversation(req.params.sessionId, currentUserId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'AI chat session not found' });
+    }
+
+    const cleared = await clearMemory(session.id);
+
+    res.json(await describeMemory(cleared, currentUserId, conversationSettings(session)));
+  } catch (error) {
+    console.error('Clear AI memory error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Estimated tokens spent per AI request in a session, newest first
+router.get('/session/:sessionId/usage', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { limit } = usageQuerySchema.parse(req.query);
+    const session = await findAiConversation(req.params.sessionId, currentUserId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'AI chat session not found' });
+    }
+
+    res.json(await getSessionUsage(currentUserId, session.id, limit));
+  } catch (error) {
+    console.error('Get AI usage error:', error);
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors });
     }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const sendChatAssistantError = (res: express.Response, error: ChatAssistantError) => {
+  if (error.retryAfterMs > 0) {
+    const retryAfter = Math.ceil(error.retryAfterMs / 1000);
+    res.setHeader('Retry-After', retryAfter);
+    return res.status(error.status).json({ error: error.message, retryAfter });
+  }
+  return res.status(error.status).json({ error: error.message });
+};
+
+// Summarize the recent messages of a conversation between people, for the caller only
+router.post('/chats/:sessionId/summary', authenticateToken, rateLimit('ai'), async (req: AuthRequest, res) => {
+  try {
+    res.json(await summarizeChat(req.userId!, req.params.sessionId));
+  } catch (error) {
+    console.error('Summarize chat error:', error);
+    if (error instanceof ChatAssistantError) {
+      return sendChatAssistantError(res, error);
+    }
+    res.status(500).json({ error: 'Failed to get AI response' });
+  }
+});
+
+// Draft a reply the caller could send next in a conversation between people
+router.post('/chats/:sessionId/suggest-reply', authenticateToken, rateLimit('ai'), async (req: AuthRequest, res) => {
+  try {
+    res.json(await suggestReply(req.userId!, req.params.sessionId));
+  } catch (error) {
+    console.error('Suggest reply error:', error);
+    if (error instanceof ChatAssistantError) {
+      return sendChatAssistantError(res, error);
+    }
     res.status(500).json({ error: 'Failed to get AI response' });
   }
 });
 
+// List the user's personas
+router.get('/personas', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    res.json(await listPersonas(req.userId!));
+  } catch (error) {
+    console.error('List personas error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Define a persona: a named assistant with its own avatar, system prompt and model settings
+router.post('/personas', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { name, picture, ...settings } = personaCreateSchema.parse(req.body);
+
+    res.status(201).json(await createPersona(req.userId!, { name, picture, settings }));
+  } catch (error) {
+    console.error('Create persona error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof PersonaError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a persona (null resets the picture or clears a setting)
+router.patch('/personas/:personaId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { name, picture, ...settings } = personaUpdateSchema.parse(req.body);
+
+    res.json(await updatePersona(req.userId!, req.params.personaId, { name, picture, settings }));
+  } catch (error) {
+    console.error('Update persona error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof PersonaError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a persona together with its conversations
+router.delete('/personas/:personaId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    await deletePersona(req.userId!, req.params.personaId);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete persona error:', error);
+    if (error instanceof PersonaError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Reminders set through the assistant that have not been delivered yet
+router.get('/reminders', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    res.json(await listPendingReminders(req.userId!));
+  } catch (error) {
+    console.error('Get reminders error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Cancel a pending reminder
+router.delete('/reminders/:reminderId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    await cancelReminder(req.userId!, req.params.reminderId);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Cancel reminder error:', error);
+    if (error instanceof ReminderError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
 
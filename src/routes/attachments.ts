@@ -0,0 +1,126 @@
+import express from 'express';
+import multer from 'multer';
+import { pipeline, Readable } from 'stream';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import {
+  saveAttachment,
+  findAccessibleAttachment,
+  isAllowedMimeType,
+  AttachmentError,
+  MAX_ATTACHMENT_BYTES,
+} from '../services/attachments.js';
+import { getStorage } from '../services/storage.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+
+const router = express.Router();
+
+/**
+ * Stream a stored file to the client. A storage read failure is logged and
+ * aborts the response instead of surfacing as an unhandled 'error' event.
+ */
+const sendStoredFile = (stream: Readable, res: express.Response) => {
+  pipeline(stream, res, (error) => {
+    // Clients closing the connection early are not storage failures
+    if (error && (error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      console.error('Attachment stream error:', error);
+    }
+  });
+};
+
+// Keep uploads in memory; they are validated and handed to the storage driver
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (!isAllowedMimeType(file.mimetype)) {
+      return cb(new AttachmentError(`File type ${file.mimetype} is not allowed`, 415));
+    }
+    cb(null, true);
+  },
+});
+
+// Upload a file (multipart field "file"); send its id with a message to attach it
+router.post('/', authenticateToken, rateLimit('upload'), (req, res, next) => {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ error: error.message });
+    }
+    if (error instanceof AttachmentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+}, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'File is required' });
+    }
+
+    const attachment = await saveAttachment(currentUserId, req.file);
+
+    res.status(201).json(attachment);
+  } catch (error) {
+    console.error('Upload attachment error:', error);
+    if (error instanceof AttachmentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download an attachment
+router.get('/:attachmentId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const attachment = await findAccessibleAttachment(currentUserId, req.params.attachmentId);
+
+    const stream = await getStorage().get(attachment.storageKey);
+
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Length', attachment.size);
+    res.setHeader(
+      'Content-Disposition',
+      `${attachment.mimeType.startsWith('image/') ? 'inline' : 'attachment'}; filename="${encodeURIComponent(attachment.fileName)}"`
+    );
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    sendStoredFile(stream, res);
+  } catch (error) {
+    console.error('Download attachment error:', error);
+    if (error instanceof AttachmentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download an image attachment's thumbnail
+router.get('/:attachmentId/thumbnail', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const attachment = await findAccessibleAttachment(currentUserId, req.params.attachmentId);
+
+    if (!attachment.thumbnailKey) {
+      return res.status(404).json({ error: 'Thumbnail not found' });
+    }
+
+    const stream = await getStorage().get(attachment.thumbnailKey);
+
+    res.setHeader('Content-Type', 'image/webp');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    sendStoredFile(stream, res);
+  } catch (error) {
+    console.error('Download thumbnail error:', error);
+    if (error instanceof AttachmentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
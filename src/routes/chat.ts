@@ -1,6 +1,44 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, MemberRole } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { findMembership, getMemberIds, canManageMembers, leaveGroup } from '../services/membership.js';
+import {
+  getMessagePage,
+  messageInclude,
+  presentMessages,
+  editMessage,
+  deleteMessage,
+  getMessageHistory,
+  getThread,
+  markDelivered,
+  getMissedMessages,
+  InvalidCursorError,
+  MessageActionError,
+  MAX_PAGE_SIZE,
+} from '../services/messages.js';
+import { searchMessages } from '../services/search.js';
+import { addReaction, removeReaction, ReactionError } from '../services/reactions.js';
+import { reportMessage, ReportError } from '../services/reports.js';
+import { isBlockedEitherWay, getBlockedUserIds } from '../services/blocks.js';
+import { DELETED_USER_ID } from '../services/accounts.js';
+import { profileSelect, getCorrespondentIds, presentUser, Profile } from '../services/users.js';
+import { getUnreadCounts, getUnreadSummary, pushUnreadCounts } from '../services/unread.js';
+import { getPresenceStore } from '../services/presence.js';
+import {
+  exportSession,
+  findExportableSession,
+  createStreamWriter,
+  exportContentTypes,
+  exportExtensions,
+  ExportAbortedError,
+} from '../services/export.js';
+import {
+  settingsSelect,
+  presentSettings,
+  updateSessionSettings,
+} from '../services/sessionSettings.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { emitToUsers, removeUserFromSession } from '../socketInstance.js';
 import { z } from 'zod';
 
 const router = express.Router();
@@ -12,16 +50,148 @@ const createMessageSchema = z.object({
   chatSessionId: z.string().optional(),
 });
 
+const createGroupSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  memberIds: z.array(z.string()).min(1),
+});
+
+const addMembersSchema = z.object({
+  userIds: z.array(z.string()).min(1),
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum([MemberRole.ADMIN, MemberRole.MEMBER]),
+});
+
+const messagePageSchema = z.object({
+  before: z.string().optional(),
+  after: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+}).refine((query) => !(query.before && query.after), {
+  message: 'Use either before or after, not both',
+});
+
+const searchSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  sessionId: z.string().optional(),
+  senderId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const booleanQuery = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+const sessionListSchema = z.object({
+  // Archived sessions are hidden unless asked for; 'all' returns both
+  archived: z.enum(['true', 'false', 'all']).default('false'),
+  pinned: booleanQuery.optional(),
+  muted: booleanQuery.optional(),
+});
+
+const sessionSettingsSchema = z.object({
+  pinned: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  muted: z.boolean().optional(),
+  mutedUntil: z.coerce.date().nullable().optional(),
+  nickname: z.string().trim().min(1).max(100).nullable().optional(),
+}).refine((update) => !(update.muted !== undefined && update.mutedUntil !== undefined), {
+  message: 'Use either muted or mutedUntil, not both',
+});
+
+const muteSchema = z.object({
+  until: z.coerce.date().optional(),
+});
+
+const exportSchema = z.object({
+  format: z.enum(['json', 'markdown', 'html']).default('json'),
+});
+
+const syncSchema = z.object({
+  since: z.string().optional(),
+  sinceTime: z.coerce.date().optional(),
+  updatedAfter: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+}).refine((query) => Boolean(query.since) !== Boolean(query.sinceTime), {
+  message: 'Provide either since or sinceTime',
+});
+
+const deliveredSchema = z.object({
+  messageIds: z.array(z.string()).min(1),
+});
+
+const editMessageSchema = z.object({
+  content: z.string().min(1),
+});
+
+const reactionSchema = z.object({
+  emoji: z.string().trim().min(1),
+});
+
+const reportSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+const deleteMessageSchema = z.object({
+  scope: z.enum(['me', 'everyone']).default('me'),
+});
+
+// Members as other participants see them: personal session settings are left out
+const memberInclude = {
+  select: {
+    id: true,
+    chatSessionId: true,
+    userId: true,
+    role: true,
+    joinedAt: true,
+    lastReadAt: true,
+    lastDeliveredAt: true,
+    // No email: it follows emailVisibility, which the profile routes apply
+    user: {
+      select: { id: true, name: true, picture: true },
+    },
+  },
+  orderBy: { joinedAt: 'asc' as const },
+};
+
+// 1:1 participants; the email is trimmed by presentParticipants
+const participantInclude = { select: profileSelect };
+
+const presentParticipants = <S extends { participant1: Profile | null; participant2: Profile | null }>(
+  session: S,
+  viewerId: string,
+  correspondentIds: string[]
+) => ({
+  ...session,
+  participant1: session.participant1 && presentUser(session.participant1, viewerId, correspondentIds),
+  participant2: session.participant2 && presentUser(session.participant2, viewerId, correspondentIds),
+});
+
 // Get or create chat session
 router.post('/session', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const currentUserId = req.userId!;
     const { participant2Id } = req.body;
 
-    if (!participant2Id || participant2Id === currentUserId) {
+    if (!participant2Id || participant2Id === currentUserId || participant2Id === DELETED_USER_ID) {
       return res.status(400).json({ error: 'Invalid participant' });
     }
 
+    // Assistants are reached through /api/ai
+    const participant = await prisma.user.findUnique({
+      where: { id: participant2Id },
+      select: { isBot: true },
+    });
+    if (!participant || participant.isBot) {
+      return res.status(400).json({ error: 'Invalid participant' });
+    }
+
+    // Blocked users cannot reach each other, whichever side blocked
+    if (await isBlockedEitherWay(currentUserId, participant2Id)) {
+      return res.status(403).json({ error: 'You cannot start a conversation with this user' });
+    }
+
     // Check if session exists
     let session = await prisma.chatSession.findFirst({
       where: {
@@ -31,23 +201,9 @@ router.post('/session', authenticateToken, async (req: AuthRequest, res) => {
         ],
       },
       include: {
-        participant1: {
-          select: { id: true, name: true, picture: true, email: true },
-        },
-        participant2: {
-          select: { id: true, name: true, picture: true, email: true },
-        },
-        messages: {
-          orderBy: { createdAt: 'asc' },
-          include: {
-            sender: {
-              select: { id: true, name: true, picture: true },
-            },
-            receiver: {
-              select: { id: true, name: true, picture: true },
-            },
-          },
-        },
+        participant1: participantInclude,
+        participant2: participantInclude,
+        members: memberInclude,
       },
     });
 
@@ -57,30 +213,29 @@ router.post('/session', authenticateToken, async (req: AuthRequest, res) => {
         data: {
           participant1Id: currentUserId,
           participant2Id,
+          members: {
+            create: [{ userId: currentUserId }, { userId: participant2Id }],
+          },
         },
         include: {
-          participant1: {
-            select: { id: true, name: true, picture: true, email: true },
-          },
-          participant2: {
-            select: { id: true, name: true, picture: true, email: true },
-          },
-          messages: {
-            orderBy: { createdAt: 'asc' },
-            include: {
-              sender: {
-                select: { id: true, name: true, picture: true },
-              },
-              receiver: {
-                select: { id: true, name: true, picture: true },
-              },
-            },
-          },
+          participant1: participantInclude,
+          participant2: participantInclude,
+          members: memberInclude,
         },
       });
     }
 
-    res.json(session);
+    // Only the latest page is returned; older messages are fetched with the cursor
+    const { messages, hasMore, nextCursor } = await getMessagePage(session.id, currentUserId);
+
+    const correspondentIds = await getCorrespondentIds(currentUserId);
+
+    res.json({
+      ...presentParticipants(session, currentUserId, correspondentIds),
+      messages,
+      hasMoreMessages: hasMore,
+      nextCursor,
+    });
   } catch (error) {
     console.error('Get/create session error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -88,27 +243,45 @@ router.post('/session', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Get chat sessions for current user
+// Pinned sessions come first (most recently pinned on top), then by activity.
+// Filters: archived=true|false|all (default false), pinned=true|false, muted=true|false
 router.get('/sessions', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const currentUserId = req.userId!;
+    const filters = sessionListSchema.parse(req.query);
+
+    const memberships = await prisma.chatMember.findMany({
+      where: {
+        userId: currentUserId,
+        ...(filters.archived === 'all'
+          ? {}
+          : { archivedAt: filters.archived === 'true' ? { not: null } : null }),
+        ...(filters.pinned === undefined
+          ? {}
+          : { pinnedAt: filters.pinned ? { not: null } : null }),
+      },
+      select: settingsSelect,
+    });
+    const settingsBySession = new Map(memberships
+      .map((membership) => [membership.chatSessionId, presentSettings(membership)] as const)
+      .filter(([, settings]) => filters.muted === undefined || settings.muted === filters.muted));
 
     const sessions = await prisma.chatSession.findMany({
       where: {
-        OR: [
-          { participant1Id: currentUserId },
-          { participant2Id: currentUserId },
-        ],
+        id: { in: [...settingsBySession.keys()] },
       },
       include: {
-        participant1: {
-          select: { id: true, name: true, picture: true, email: true },
-        },
-        participant2: {
-          select: { id: true, name: true, picture: true, email: true },
-        },
+        participant1: participantInclude,
+        participant2: participantInclude,
+        members: memberInclude,
         messages: {
+          where: { hiddenBy: { none: { userId: currentUserId } } },
           orderBy: { createdAt: 'desc' },
           take: 1,
+          include: {
+            sender: { select: { id: true, name: true } },
+            _count: { select: { attachments: true } },
+          },
         },
       },
       orderBy: {
@@ -116,9 +289,63 @@ router.get('/sessions', authenticateToken, async (req: AuthRequest, res) => {
       },
     });
 
-    res.json(sessions);
+    const unreadCounts = await getUnreadCounts(currentUserId, sessions.map((session) => session.id));
+    const blockedIds = await getBlockedUserIds(currentUserId);
+    const correspondentIds = await getCorrespondentIds(currentUserId);
+    const presence = getPresenceStore();
+
+    const summaries = await Promise.all(sessions.map(async (session) => {
+      const lastMessage = session.messages[0];
+
+      // Presence of the other participant in 1:1 sessions (hidden across blocks)
+      const otherId = session.isGroup
+        ? null
+        : session.members.find((member) => member.userId !== currentUserId)?.userId;
+      const otherPresence = otherId
+        ? {
+            userId: otherId,
+            status: blockedIds.includes(otherId) ? 'offline' : await presence.getPresence(otherId),
+          }
+        : null;
+
+      return {
+        ...presentParticipants(session, currentUserId, correspondentIds),
+        settings: settingsBySession.get(session.id)!,
+        unreadCount: unreadCounts.get(session.id) ?? 0,
+        presence: otherPresence,
+        lastMessage: lastMessage
+          ? {
+              id: lastMessage.id,
+              sender: lastMessage.sender,
+              preview: lastMessage.deletedAt ? '' : lastMessage.content.slice(0, 100),
+              attachmentCount: lastMessage._count.attachments,
+              deleted: Boolean(lastMessage.deletedAt),
+              createdAt: lastMessage.createdAt,
+            }
+          : null,
+      };
+    }));
+
+    // findMany already ordered by activity and sort is stable, so only pins need moving up
+    summaries.sort((a, b) =>
+      (b.settings.pinnedAt?.getTime() ?? 0) - (a.settings.pinnedAt?.getTime() ?? 0));
+
+    res.json(summaries);
   } catch (error) {
     console.error('Get sessions error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Unread message total across all sessions, with per-session counts
+router.get('/unread', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    res.json(await getUnreadSummary(req.userId!));
+  } catch (error) {
+    console.error('Get unread counts error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -128,38 +355,26 @@ router.get('/session/:sessionId/messages', authenticateToken, async (req: AuthRe
   try {
     const currentUserId = req.userId!;
     const { sessionId } = req.params;
+    const pageOptions = messagePageSchema.parse(req.query);
 
     // Verify user is part of this session
-    const session = await prisma.chatSession.findFirst({
-      where: {
-        id: sessionId,
-        OR: [
-          { participant1Id: currentUserId },
-          { participant2Id: currentUserId },
-        ],
-      },
-    });
+    const membership = await findMembership(sessionId, currentUserId);
 
-    if (!session) {
+    if (!membership) {
       return res.status(404).json({ error: 'Session not found' });
     }
 
-    const messages = await prisma.message.findMany({
-      where: { chatSessionId: sessionId },
-      include: {
-        sender: {
-          select: { id: true, name: true, picture: true },
-        },
-        receiver: {
-          select: { id: true, name: true, picture: true },
-        },
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+    const page = await getMessagePage(sessionId, currentUserId, pageOptions);
 
-    res.json(messages);
+    res.json(page);
   } catch (error) {
     console.error('Get messages error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -171,20 +386,35 @@ router.post('/session/:sessionId/read', authenticateToken, async (req: AuthReque
     const { sessionId } = req.params;
 
     // Verify user is part of this session
-    const session = await prisma.chatSession.findFirst({
-      where: {
-        id: sessionId,
-        OR: [
-          { participant1Id: currentUserId },
-          { participant2Id: currentUserId },
-        ],
-      },
-    });
+    const membership = await findMembership(sessionId, currentUserId);
 
-    if (!session) {
+    if (!membership) {
       return res.status(404).json({ error: 'Session not found' });
     }
 
+    const session = membership.chatSession;
+
+    // Group conversations track reads per member rather than per message
+    if (session.isGroup) {
+      const readAt = new Date();
+      await prisma.chatMember.update({
+        where: { id: membership.id },
+        data: { lastReadAt: readAt },
+      });
+
+      const otherMemberIds = (await getMemberIds(sessionId))
+        .filter((memberId) => memberId !== currentUserId);
+
+      emitToUsers(otherMemberIds, 'messages-read', {
+        sessionId,
+        userId: currentUserId,
+        readAt,
+      });
+      pushUnreadCounts([currentUserId], sessionId);
+
+      return res.json({ count: 0, messages: [], readAt });
+    }
+
     // Mark all unread messages as read
     const result = await prisma.message.updateMany({
       where: {
@@ -204,39 +434,587 @@ router.post('/session/:sessionId/read', authenticateToken, async (req: AuthReque
         receiverId: currentUserId,
         readAt: { not: null },
       },
-      include: {
-        sender: {
-          select: { id: true, name: true, picture: true },
-        },
-        receiver: {
-          select: { id: true, name: true, picture: true },
+      include: messageInclude,
+    });
+
+    // Notify sender that messages were read
+    const senderId = session.participant1Id === currentUserId 
+      ? session.participant2Id 
+      : session.participant1Id;
+
+    if (senderId) {
+      emitToUsers([senderId], 'messages-read', {
+        sessionId,
+        messageIds: updatedMessages.map((m) => m.id),
+      });
+    }
+
+    pushUnreadCounts([currentUserId], sessionId);
+
+    res.json({ count: result.count, messages: await presentMessages(updatedMessages) });
+  } catch (error) {
+    console.error('Mark messages as read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download a session transcript (works for AI sessions too), streamed as it is read
+router.get('/session/:sessionId/export', authenticateToken, rateLimit('export'), async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId } = req.params;
+    const { format } = exportSchema.parse(req.query);
+
+    const session = await findExportableSession(currentUserId, sessionId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.setHeader('Content-Type', exportContentTypes[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="chat-${sessionId}.${exportExtensions[format]}"`);
+
+    await exportSession(currentUserId, session, format, createStreamWriter(res));
+    res.end();
+  } catch (error) {
+    if (error instanceof ExportAbortedError) {
+      return;
+    }
+    console.error('Export session error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    // Once streaming has started the status can no longer change
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the caller's personal settings for a session
+router.get('/session/:sessionId/settings', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId } = req.params;
+
+    const settings = await prisma.chatMember.findUnique({
+      where: { chatSessionId_userId: { chatSessionId: sessionId, userId: currentUserId } },
+      select: settingsSelect,
+    });
+
+    if (!settings) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json(presentSettings(settings));
+  } catch (error) {
+    console.error('Get session settings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Pin, archive, mute or rename a session for the caller only
+router.patch('/session/:sessionId/settings', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId } = req.params;
+    const update = sessionSettingsSchema.parse(req.body);
+
+    const membership = await findMembership(sessionId, currentUserId);
+
+    if (!membership) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json(await updateSessionSettings(membership.id, currentUserId, update));
+  } catch (error) {
+    console.error('Update session settings error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mute a session, optionally until a given time: messages still arrive, without notification events
+router.post('/session/:sessionId/mute', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId } = req.params;
+    const { until } = muteSchema.parse(req.body ?? {});
+
+    const membership = await findMembership(sessionId, currentUserId);
+
+    if (!membership) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json(await updateSessionSettings(
+      membership.id,
+      currentUserId,
+      until ? { mutedUntil: until } : { muted: true }
+    ));
+  } catch (error) {
+    console.error('Mute session error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Unmute a session
+router.delete('/session/:sessionId/mute', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId } = req.params;
+
+    const membership = await findMembership(sessionId, currentUserId);
+
+    if (!membership) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json(await updateSessionSettings(membership.id, currentUserId, { muted: false }));
+  } catch (error) {
+    console.error('Unmute session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark messages as received by one of the user's devices
+router.post('/session/:sessionId/delivered', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId } = req.params;
+    const { messageIds } = deliveredSchema.parse(req.body);
+
+    const result = await markDelivered(currentUserId, sessionId, messageIds);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Mark messages as delivered error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof MessageActionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Catch up after a reconnect: everything missed since a message id or timestamp
+router.get('/sync', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const options = syncSchema.parse(req.query);
+
+    const result = await getMissedMessages(currentUserId, options);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Sync messages error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Search messages across the user's conversations
+router.get('/search', authenticateToken, rateLimit('search'), async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { q, ...filters } = searchSchema.parse(req.query);
+
+    // Searching a specific session requires the same membership as reading it
+    if (filters.sessionId && !(await findMembership(filters.sessionId, currentUserId))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const results = await searchMessages(currentUserId, { query: q, ...filters });
+
+    res.json(results);
+  } catch (error) {
+    console.error('Search messages error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Edit a message (sender only, within the edit window)
+router.patch('/messages/:messageId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { messageId } = req.params;
+    const { content } = editMessageSchema.parse(req.body);
+
+    const message = await editMessage(currentUserId, messageId, content);
+
+    res.json(message);
+  } catch (error) {
+    console.error('Edit message error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof MessageActionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a message for me (default) or for everyone (?scope=everyone, sender only)
+router.delete('/messages/:messageId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { messageId } = req.params;
+    const { scope } = deleteMessageSchema.parse(req.query);
+
+    const result = await deleteMessage(currentUserId, messageId, scope);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Delete message error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof MessageActionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the edit history of a message
+router.get('/messages/:messageId/history', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { messageId } = req.params;
+
+    const history = await getMessageHistory(currentUserId, messageId);
+
+    res.json(history);
+  } catch (error) {
+    console.error('Get message history error:', error);
+    if (error instanceof MessageActionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a message and a page of its replies
+router.get('/messages/:messageId/thread', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { messageId } = req.params;
+    const pageOptions = messagePageSchema.parse(req.query);
+
+    const thread = await getThread(currentUserId, messageId, pageOptions);
+
+    res.json(thread);
+  } catch (error) {
+    console.error('Get thread error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof MessageActionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Report a message to the admins for review
+router.post('/messages/:messageId/report', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { messageId } = req.params;
+    const { reason } = reportSchema.parse(req.body);
+
+    const report = await reportMessage(currentUserId, messageId, reason);
+
+    res.status(201).json(report);
+  } catch (error) {
+    console.error('Report message error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof ReportError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// React to a message with an emoji
+router.post('/messages/:messageId/reactions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { messageId } = req.params;
+    const { emoji } = reactionSchema.parse(req.body);
+
+    const result = await addReaction(currentUserId, messageId, emoji);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Add reaction error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof ReactionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove your reaction (the emoji is URL-encoded in the path)
+router.delete('/messages/:messageId/reactions/:emoji', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { messageId, emoji } = req.params;
+
+    const result = await removeReaction(currentUserId, messageId, emoji);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Remove reaction error:', error);
+    if (error instanceof ReactionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a group conversation
+router.post('/groups', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { name, memberIds } = createGroupSchema.parse(req.body);
+
+    const uniqueMemberIds = [...new Set(memberIds)].filter((id) => id !== currentUserId);
+    if (uniqueMemberIds.length === 0) {
+      return res.status(400).json({ error: 'A group needs at least one other member' });
+    }
+
+    // Assistants and the deleted-user placeholder cannot be members
+    const existingUsers = await prisma.user.count({
+      where: { id: { in: uniqueMemberIds, not: DELETED_USER_ID }, isBot: false },
+    });
+    if (existingUsers !== uniqueMemberIds.length) {
+      return res.status(400).json({ error: 'Invalid participant' });
+    }
+
+    // Blocked users cannot reach each other, whichever side blocked
+    const blockedUserIds = await getBlockedUserIds(currentUserId);
+    if (uniqueMemberIds.some((id) => blockedUserIds.includes(id))) {
+      return res.status(403).json({ error: 'You cannot add this user to a conversation' });
+    }
+
+    const session = await prisma.chatSession.create({
+      data: {
+        isGroup: true,
+        name,
+        members: {
+          create: [
+            { userId: currentUserId, role: MemberRole.OWNER },
+            ...uniqueMemberIds.map((userId) => ({ userId })),
+          ],
         },
       },
+      include: {
+        members: memberInclude,
+      },
     });
 
-    // Emit read receipts via socket
-    const { getSocketInstance } = await import('../socketInstance.js');
-    const io = getSocketInstance();
-    if (io && io.sockets) {
-      // Notify sender that messages were read
-      const senderId = session.participant1Id === currentUserId 
-        ? session.participant2Id 
-        : session.participant1Id;
-      
-      const senderSocket = Array.from(io.sockets.sockets.values())
-        .find((socket: any) => socket.userId === senderId) as any;
-      
-      if (senderSocket && senderSocket.emit) {
-        senderSocket.emit('messages-read', {
-          sessionId,
-          messageIds: updatedMessages.map(m => m.id),
-        });
-      }
-    }
-
-    res.json({ count: result.count, messages: updatedMessages });
+    emitToUsers(uniqueMemberIds, 'group-joined', session);
+
+    res.status(201).json({ ...session, messages: [] });
   } catch (error) {
-    console.error('Mark messages as read error:', error);
+    console.error('Create group error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add members to a group conversation
+router.post('/session/:sessionId/members', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId } = req.params;
+    const { userIds } = addMembersSchema.parse(req.body);
+
+    const membership = await findMembership(sessionId, currentUserId);
+    if (!membership) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (!membership.chatSession.isGroup) {
+      return res.status(400).json({ error: 'Members can only be added to group conversations' });
+    }
+    if (!canManageMembers(membership.role)) {
+      return res.status(403).json({ error: 'Only group owners and admins can add members' });
+    }
+
+    // Assistants and the deleted-user placeholder cannot be members
+    const existingUsers = await prisma.user.findMany({
+      where: { id: { in: userIds, not: DELETED_USER_ID }, isBot: false },
+      select: { id: true },
+    });
+    if (existingUsers.length !== new Set(userIds).size) {
+      return res.status(400).json({ error: 'Invalid participant' });
+    }
+
+    // Blocked users cannot reach each other, whichever side blocked
+    const blockedUserIds = await getBlockedUserIds(currentUserId);
+    if (existingUsers.some((user) => blockedUserIds.includes(user.id))) {
+      return res.status(403).json({ error: 'You cannot add this user to a conversation' });
+    }
+
+    await prisma.chatMember.createMany({
+      data: existingUsers.map((user) => ({ chatSessionId: sessionId, userId: user.id })),
+      skipDuplicates: true,
+    });
+
+    const members = await prisma.chatMember.findMany({
+      where: { chatSessionId: sessionId },
+      ...memberInclude,
+    });
+
+    emitToUsers(members.map((member) => member.userId), 'group-members-updated', {
+      sessionId,
+      members,
+    });
+
+    res.json(members);
+  } catch (error) {
+    console.error('Add group members error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Change a member's role (owner only)
+router.patch('/session/:sessionId/members/:userId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId, userId } = req.params;
+    const { role } = updateMemberSchema.parse(req.body);
+
+    const membership = await findMembership(sessionId, currentUserId);
+    if (!membership || !membership.chatSession.isGroup) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (membership.role !== MemberRole.OWNER) {
+      return res.status(403).json({ error: 'Only the group owner can change roles' });
+    }
+
+    const target = await findMembership(sessionId, userId);
+    if (!target) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+    if (target.role === MemberRole.OWNER) {
+      return res.status(400).json({ error: 'The owner role cannot be changed' });
+    }
+
+    const member = await prisma.chatMember.update({
+      where: { id: target.id },
+      data: { role },
+      select: memberInclude.select,
+    });
+
+    emitToUsers(await getMemberIds(sessionId), 'group-member-role-changed', { sessionId, member });
+
+    res.json(member);
+  } catch (error) {
+    console.error('Update group member error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove a member from a group conversation
+router.delete('/session/:sessionId/members/:userId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId, userId } = req.params;
+
+    if (userId === currentUserId) {
+      return res.status(400).json({ error: 'Use the leave endpoint to leave a group' });
+    }
+
+    const membership = await findMembership(sessionId, currentUserId);
+    if (!membership || !membership.chatSession.isGroup) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (!canManageMembers(membership.role)) {
+      return res.status(403).json({ error: 'Only group owners and admins can remove members' });
+    }
+
+    const target = await findMembership(sessionId, userId);
+    if (!target) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+    // Admins can only remove regular members; nobody can remove the owner
+    if (target.role === MemberRole.OWNER ||
+        (target.role === MemberRole.ADMIN && membership.role !== MemberRole.OWNER)) {
+      return res.status(403).json({ error: 'Insufficient permissions to remove this member' });
+    }
+
+    await prisma.chatMember.delete({ where: { id: target.id } });
+
+    removeUserFromSession(userId, sessionId);
+
+    const remainingIds = await getMemberIds(sessionId);
+    emitToUsers([...remainingIds, userId], 'group-member-removed', { sessionId, userId });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Remove group member error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Leave a group conversation
+router.post('/session/:sessionId/leave', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { sessionId } = req.params;
+
+    const membership = await findMembership(sessionId, currentUserId);
+    if (!membership || !membership.chatSession.isGroup) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const remainingIds = await leaveGroup(membership);
+
+    removeUserFromSession(currentUserId, sessionId);
+
+    emitToUsers(remainingIds, 'group-member-removed', {
+      sessionId,
+      userId: currentUserId,
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Leave group error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
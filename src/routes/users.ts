@@ -1,37 +1,86 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, EmailVisibility, Prisma } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { getPresenceStore } from '../services/presence.js';
+import { getBlockedUserIds } from '../services/blocks.js';
+import { emitToUsers } from '../socketInstance.js';
+import {
+  profileSelect,
+  getContactIds,
+  getCorrespondentIds,
+  getReaderIds,
+  emailVisibleTo,
+  presentUser,
+} from '../services/users.js';
+import { exportAccount, createStreamWriter, ExportAbortedError } from '../services/export.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { deleteAccount, AccountDeletionError, DELETED_USER_ID } from '../services/accounts.js';
+import { z } from 'zod';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Get all users (excluding current user and AI user)
+const directorySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const deleteAccountSchema = z.object({
+  // Guards against accidental calls; the client should ask the user first
+  confirm: z.literal(true),
+});
+
+const updateProfileSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  statusText: z.string().trim().max(140).nullable().optional(),
+  picture: z.string().url().max(2048).nullable().optional(),
+  emailVisibility: z.nativeEnum(EmailVisibility).optional(),
+});
+
+// Browse or search the user directory (excluding current user, system accounts and blocks).
+// `q` matches a name prefix, or an email prefix where the email is visible to the caller.
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const currentUserId = req.userId!;
+    const { q, limit, offset } = directorySchema.parse(req.query);
+    const blockedIds = await getBlockedUserIds(currentUserId);
 
-    const users = await prisma.user.findMany({
-      where: {
-        id: { 
-          not: currentUserId,
-          notIn: ['ai-assistant'], // Exclude AI user
-        },
-      },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        picture: true,
-        createdAt: true,
-      },
-      orderBy: {
-        createdAt: 'desc',
+    const where: Prisma.UserWhereInput = {
+      id: { 
+        not: currentUserId,
+        notIn: [DELETED_USER_ID, ...blockedIds],
       },
+      isBot: false,
+    };
+    if (q) {
+      where.OR = [
+        { name: { startsWith: q, mode: 'insensitive' } },
+        { AND: [{ email: { startsWith: q, mode: 'insensitive' } }, emailVisibleTo(currentUserId)] },
+      ];
+    }
+
+    const rows = await prisma.user.findMany({
+      where,
+      select: profileSelect,
+      orderBy: q ? [{ name: 'asc' }, { id: 'asc' }] : [{ createdAt: 'desc' }, { id: 'asc' }],
+      skip: offset,
+      take: limit + 1,
     });
 
-    res.json(users);
+    const hasMore = rows.length > limit;
+    const correspondentIds = await getCorrespondentIds(currentUserId);
+
+    res.json({
+      users: rows.slice(0, limit).map((user) => presentUser(user, currentUserId, correspondentIds)),
+      hasMore,
+      nextOffset: hasMore ? offset + limit : null,
+    });
   } catch (error) {
     console.error('Get users error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -43,13 +92,7 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        picture: true,
-        createdAt: true,
-      },
+      select: profileSelect,
     });
 
     if (!user) {
@@ -63,5 +106,215 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Update the current user's profile; contacts are told about the change
+router.patch('/me', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const updates = updateProfileSchema.parse(req.body);
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: updates,
+      select: profileSelect,
+    });
+
+    const blockedIds = await getBlockedUserIds(userId);
+    const contactIds = (await getContactIds(userId)).filter((id) => !blockedIds.includes(id));
+
+    // Only contacts the user has written to may see a CONTACTS-only email
+    const readerIds = await getReaderIds(userId);
+    emitToUsers([userId], 'user-updated', presentUser(user, userId, []));
+    for (const contactId of contactIds) {
+      emitToUsers([contactId], 'user-updated', presentUser(user, contactId, readerIds.includes(contactId) ? [userId] : []));
+    }
+
+    res.json(user);
+  } catch (error) {
+    console.error('Update profile error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Permanently delete the current user's account
+router.delete('/me', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    deleteAccountSchema.parse(req.body ?? {});
+
+    const result = await deleteAccount(userId);
+
+    res.json({ success: true, messagePolicy: result.policy });
+  } catch (error) {
+    console.error('Delete account error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Send { "confirm": true } to delete your account' });
+    }
+    if (error instanceof AccountDeletionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download everything stored about the current user as one JSON document
+router.get('/me/export', authenticateToken, rateLimit('export'), async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="account-${userId}.json"`);
+
+    await exportAccount(userId, createStreamWriter(res));
+    res.end();
+  } catch (error) {
+    if (error instanceof ExportAbortedError) {
+      return;
+    }
+    console.error('Export account error:', error);
+    // Once streaming has started the status can no longer change
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List the users the current user has blocked
+router.get('/blocks', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const blocks = await prisma.block.findMany({
+      where: { blockerId: req.userId! },
+      include: {
+        blocked: {
+          select: { id: true, name: true, picture: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json(blocks.map((block) => ({ ...block.blocked, blockedAt: block.createdAt })));
+  } catch (error) {
+    console.error('Get blocks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Block a user
+router.post('/:userId/block', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { userId } = req.params;
+
+    if (userId === currentUserId) {
+      return res.status(400).json({ error: 'You cannot block yourself' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await prisma.block.upsert({
+      where: { blockerId_blockedId: { blockerId: currentUserId, blockedId: userId } },
+      create: { blockerId: currentUserId, blockedId: userId },
+      update: {},
+    });
+
+    // Both sides stop seeing each other online; the blocker's devices update their lists
+    emitToUsers([currentUserId], 'user-blocked', { userId });
+    emitToUsers([currentUserId], 'presence-changed', { userId, status: 'offline' });
+    emitToUsers([userId], 'presence-changed', { userId: currentUserId, status: 'offline' });
+
+    res.json({ userId, blocked: true });
+  } catch (error) {
+    console.error('Block user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Unblock a user
+router.delete('/:userId/block', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const currentUserId = req.userId!;
+    const { userId } = req.params;
+
+    await prisma.block.deleteMany({
+      where: { blockerId: currentUserId, blockedId: userId },
+    });
+
+    emitToUsers([currentUserId], 'user-unblocked', { userId });
+
+    res.json({ userId, blocked: false });
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get presence and last seen time for several users (?ids=a,b,c)
+router.get('/presence', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const blockedIds = await getBlockedUserIds(req.userId!);
+    const ids = z.string().min(1).parse(req.query.ids)
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean)
+      .slice(0, 100);
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, lastSeenAt: true },
+    });
+
+    // Blocked users always appear offline to each other
+    const presence = getPresenceStore();
+    res.json(await Promise.all(users.map(async (user) => blockedIds.includes(user.id)
+      ? { userId: user.id, status: 'offline', lastSeenAt: null }
+      : {
+          userId: user.id,
+          status: await presence.getPresence(user.id),
+          lastSeenAt: user.lastSeenAt,
+        })));
+  } catch (error) {
+    console.error('Get presence error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'ids query parameter is required' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a user's presence and last seen time
+router.get('/:userId/presence', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { userId } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, lastSeenAt: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if ((await getBlockedUserIds(req.userId!)).includes(user.id)) {
+      return res.json({ userId: user.id, status: 'offline', lastSeenAt: null });
+    }
+
+    res.json({
+      userId: user.id,
+      status: await getPresenceStore().getPresence(user.id),
+      lastSeenAt: user.lastSeenAt,
+    });
+  } catch (error) {
+    console.error('Get user presence error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
 
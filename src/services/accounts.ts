@@ -0,0 +1,183 @@
+import { PrismaClient } from '@prisma/client';
+import { getStorage } from './storage.js';
+import { leaveGroup } from './membership.js';
+import { getContactIds } from './users.js';
+import { emitToUsers, disconnectUser } from '../socketInstance.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * What happens to the messages a user sent when they delete their account:
+ * `anonymize` keeps them under a shared "Deleted user" account, `delete`
+ * removes them (and their attachments) from every conversation.
+ */
+export type MessageDeletionPolicy = 'anonymize' | 'delete';
+
+export const MESSAGE_DELETION_POLICY: MessageDeletionPolicy =
+  process.env.ACCOUNT_DELETION_MESSAGE_POLICY === 'delete' ? 'delete' : 'anonymize';
+
+// Placeholder account that stands in for deleted users in existing conversations
+export const DELETED_USER_ID = 'deleted-user';
+
+export class AccountDeletionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AccountDeletionError';
+  }
+}
+
+const ensureDeletedUser = () =>
+  prisma.user.upsert({
+    where: { id: DELETED_USER_ID },
+    create: {
+      id: DELETED_USER_ID,
+      email: 'deleted-user@nexuschat.invalid',
+      name: 'Deleted user',
+      emailVerified: false,
+      picture: 'https://ui-avatars.com/api/?name=%3F&background=9ca3af&color=fff',
+    },
+    update: {},
+  });
+
+/**
+ * Remove stored files for attachments; failures are only logged
+ */
+const deleteAttachmentFiles = (attachments: Array<{ storageKey: string; thumbnailKey: string | null }>) => {
+  const storage = getStorage();
+  for (const attachment of attachments) {
+    for (const key of [attachment.storageKey, attachment.thumbnailKey]) {
+      if (key) {
+        storage.delete(key).catch((error) => console.error('Attachment cleanup error:', error));
+      }
+    }
+  }
+};
+
+/**
+ * Permanently delete a user's account.
+ *
+ * Better Auth sessions and accounts are removed with the user, and every
+ * connected device is disconnected. Groups continue without the user (with a
+ * new owner if needed). 1:1 conversations stay readable for the other
+ * participant, who now talks to the "Deleted user" placeholder and can no
+ * longer send to it; when that participant deleted their account too, the
+ * conversation is removed. AI conversations and the user's personas are
+ * removed. The user's own messages follow `MESSAGE_DELETION_POLICY`.
+ */
+export const deleteAccount = async (userId: string, policy = MESSAGE_DELETION_POLICY) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new AccountDeletionError('User not found', 404);
+  }
+  if (user.isBot || userId === DELETED_USER_ID) {
+    throw new AccountDeletionError('This account cannot be deleted', 400);
+  }
+
+  await ensureDeletedUser();
+  const contactIds = await getContactIds(userId);
+
+  const memberships = await prisma.chatMember.findMany({
+    where: { userId },
+    include: {
+      chatSession: {
+        include: { members: { select: { userId: true } } },
+      },
+    },
+  });
+
+  // Files are collected up front and removed once the rows are gone
+  const removedFiles = await prisma.attachment.findMany({
+    where: policy === 'delete'
+      ? { uploaderId: userId }
+      : { uploaderId: userId, messageId: null },
+    select: { storageKey: true, thumbnailKey: true },
+  });
+
+  const groupUpdates: Array<{ sessionId: string; remainingIds: string[] }> = [];
+
+  await prisma.$transaction(async (tx) => {
+    for (const membership of memberships) {
+      const session = membership.chatSession;
+
+      if (session.isGroup) {
+        groupUpdates.push({ sessionId: session.id, remainingIds: await leaveGroup(membership, tx) });
+        continue;
+      }
+
+      // AI conversations have nobody left to read them
+      if (session.botId) {
+        await tx.chatSession.delete({ where: { id: session.id } });
+        continue;
+      }
+
+      // Checked inside the transaction: the other side may have been deleted
+      // meanwhile, and the placeholder can only be a member once
+      const otherDeleted = await tx.chatMember.findFirst({
+        where: { chatSessionId: session.id, userId: DELETED_USER_ID },
+        select: { id: true },
+      });
+      if (otherDeleted) {
+        // Nobody is left to read it, so its files go too (the user's own
+        // uploads are already collected under the delete policy)
+        removedFiles.push(...await tx.attachment.findMany({
+          where: {
+            message: { chatSessionId: session.id },
+            ...(policy === 'delete' && { uploaderId: { not: userId } }),
+          },
+          select: { storageKey: true, thumbnailKey: true },
+        }));
+        await tx.chatSession.delete({ where: { id: session.id } });
+        continue;
+      }
+
+      // The other participant keeps the conversation, now with the placeholder
+      await tx.chatMember.update({
+        where: { id: membership.id },
+        data: { userId: DELETED_USER_ID },
+      });
+      await tx.chatSession.update({
+        where: { id: session.id },
+        data: {
+          participant1Id: session.participant1Id === userId ? null : session.participant1Id,
+          participant2Id: session.participant2Id === userId ? null : session.participant2Id,
+        },
+      });
+    }
+
+    if (policy === 'delete') {
+      await tx.message.deleteMany({ where: { senderId: userId } });
+    } else {
+      await tx.message.updateMany({
+        where: { senderId: userId },
+        data: { senderId: DELETED_USER_ID, clientMessageId: null },
+      });
+      await tx.attachment.updateMany({
+        where: { uploaderId: userId, messageId: { not: null } },
+        data: { uploaderId: DELETED_USER_ID },
+      });
+    }
+
+    await tx.message.updateMany({
+      where: { receiverId: userId },
+      data: { receiverId: DELETED_USER_ID },
+    });
+    await tx.attachment.deleteMany({ where: { uploaderId: userId } });
+
+    // The user's personas only ever talked in the AI conversations deleted above
+    await tx.user.deleteMany({ where: { persona: { ownerId: userId } } });
+
+    // Sessions, accounts, blocks, reactions and hidden messages cascade with the user
+    await tx.session.deleteMany({ where: { userId } });
+    await tx.user.delete({ where: { id: userId } });
+  }, { timeout: 60_000 });
+
+  deleteAttachmentFiles(removedFiles);
+  disconnectUser(userId);
+
+  for (const { sessionId, remainingIds } of groupUpdates) {
+    emitToUsers(remainingIds, 'group-member-removed', { sessionId, userId });
+  }
+  emitToUsers(contactIds, 'user-deleted', { userId, replacedBy: DELETED_USER_ID });
+
+  return { policy };
+};
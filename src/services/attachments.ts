@@ -0,0 +1,262 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { getStorage } from './storage.js';
+import { findMembership } from './membership.js';
+
+const prisma = new PrismaClient();
+
+export const MAX_ATTACHMENT_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES || 10 * 1024 * 1024);
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+];
+
+const ALLOWED_TYPES = process.env.ATTACHMENT_ALLOWED_TYPES
+  ? process.env.ATTACHMENT_ALLOWED_TYPES.split(',').map((type) => type.trim())
+  : DEFAULT_ALLOWED_TYPES;
+
+const THUMBNAIL_SIZE = 320;
+
+// Uploads never sent with a message are removed after this many hours (0 keeps them)
+const UNSENT_TTL_HOURS = Number(process.env.ATTACHMENT_UNSENT_TTL_HOURS ?? 24);
+// How often unsent uploads are looked for
+const CLEANUP_INTERVAL_MINUTES = 60;
+// Uploads removed per query
+const CLEANUP_BATCH_SIZE = 500;
+
+// GIFs are skipped so animated images are not reduced to a single frame
+const THUMBNAIL_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Attachment fields loaded for clients; pass them through presentAttachment
+ */
+export const attachmentSelect = {
+  id: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  width: true,
+  height: true,
+  thumbnailKey: true,
+  createdAt: true,
+} satisfies Prisma.AttachmentSelect;
+
+/**
+ * Shape an attachment for clients: download routes instead of storage keys
+ */
+export const presentAttachment = ({
+  thumbnailKey,
+  ...attachment
+}: Prisma.AttachmentGetPayload<{ select: typeof attachmentSelect }>) => ({
+  ...attachment,
+  url: `/api/attachments/${attachment.id}`,
+  thumbnailUrl: thumbnailKey ? `/api/attachments/${attachment.id}/thumbnail` : null,
+});
+
+/**
+ * An upload or attachment lookup that was rejected, with the HTTP status to report
+ */
+export class AttachmentError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+export const isAllowedMimeType = (mimeType: string) => ALLOWED_TYPES.includes(mimeType);
+
+/**
+ * Validate and store an uploaded file, generating a thumbnail for images.
+ * The attachment is unlinked until it is sent with a message.
+ */
+export const saveAttachment = async (
+  uploaderId: string,
+  file: { originalname: string; mimetype: string; size: number; buffer: Buffer }
+) => {
+  if (!isAllowedMimeType(file.mimetype)) {
+    throw new AttachmentError(`File type ${file.mimetype} is not allowed`, 415);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError('File is too large', 413);
+  }
+
+  const storage = getStorage();
+  const id = randomUUID();
+  const extension = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, '');
+  const storageKey = `attachments/${uploaderId}/${id}${extension}`;
+
+  let thumbnailKey: string | null = null;
+  let width: number | null = null;
+  let height: number | null = null;
+
+  if (file.mimetype.startsWith('image/')) {
+    try {
+      const image = sharp(file.buffer);
+      const metadata = await image.metadata();
+      width = metadata.width ?? null;
+      height = metadata.height ?? null;
+
+      if (THUMBNAIL_TYPES.includes(file.mimetype)) {
+        const thumbnail = await image
+          .rotate()
+          .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+          .webp()
+          .toBuffer();
+        thumbnailKey = `attachments/${uploaderId}/${id}-thumb.webp`;
+        await storage.put(thumbnailKey, thumbnail, 'image/webp');
+      }
+    } catch (error) {
+      // A file that claims to be an image but cannot be decoded is rejected
+      console.error('Image processing error:', error);
+      throw new AttachmentError('Invalid image file', 400);
+    }
+  }
+
+  await storage.put(storageKey, file.buffer, file.mimetype);
+
+  const attachment = await prisma.attachment.create({
+    data: {
+      uploaderId,
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      storageKey,
+      thumbnailKey,
+      width,
+      height,
+    },
+    select: attachmentSelect,
+  });
+
+  return presentAttachment(attachment);
+};
+
+/**
+ * Check that every id is an unsent upload owned by `uploaderId`, ready to be
+ * connected to a new message
+ */
+export const validateAttachmentIds = async (uploaderId: string, attachmentIds: string[]) => {
+  const ids = [...new Set(attachmentIds)];
+  if (ids.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new AttachmentError(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`, 400);
+  }
+
+  const count = await prisma.attachment.count({
+    where: { id: { in: ids }, uploaderId, messageId: null },
+  });
+  if (count !== ids.length) {
+    throw new AttachmentError('Invalid attachment', 400);
+  }
+
+  return ids;
+};
+
+/**
+ * Load an attachment the user may download: their own uploads, or files sent
+ * to a session they are a member of in a message not hidden from them
+ */
+export const findAccessibleAttachment = async (userId: string, attachmentId: string) => {
+  const attachment = await prisma.attachment.findUnique({
+    where: { id: attachmentId },
+    include: {
+      message: {
+        select: {
+          chatSessionId: true,
+          deletedAt: true,
+          hiddenBy: { where: { userId }, select: { userId: true } },
+        },
+      },
+    },
+  });
+
+  if (!attachment) {
+    throw new AttachmentError('Attachment not found', 404);
+  }
+
+  if (attachment.message) {
+    const membership = await findMembership(attachment.message.chatSessionId, userId);
+    if (!membership || attachment.message.deletedAt || attachment.message.hiddenBy.length > 0) {
+      throw new AttachmentError('Attachment not found', 404);
+    }
+  } else if (attachment.uploaderId !== userId) {
+    throw new AttachmentError('Attachment not found', 404);
+  }
+
+  return attachment;
+};
+
+/**
+ * Delete uploads created before the cutoff that were never sent with a
+ * message, with their stored files. Returns the number of uploads removed.
+ */
+export const purgeUnsentAttachments = async (cutoff: Date) => {
+  const storage = getStorage();
+  let purged = 0;
+
+  while (true) {
+    const batch = await prisma.attachment.findMany({
+      where: { messageId: null, createdAt: { lt: cutoff } },
+      select: { id: true, storageKey: true, thumbnailKey: true },
+      orderBy: { createdAt: 'asc' },
+      take: CLEANUP_BATCH_SIZE,
+    });
+    if (batch.length === 0) {
+      return purged;
+    }
+
+    // Still unsent: an upload attached meanwhile is kept
+    const { count } = await prisma.attachment.deleteMany({
+      where: { id: { in: batch.map((attachment) => attachment.id) }, messageId: null },
+    });
+    purged += count;
+    const remaining = new Set(
+      (await prisma.attachment.findMany({
+        where: { id: { in: batch.map((attachment) => attachment.id) } },
+        select: { id: true },
+      })).map((attachment) => attachment.id)
+    );
+
+    for (const attachment of batch.filter((attachment) => !remaining.has(attachment.id))) {
+      for (const key of [attachment.storageKey, attachment.thumbnailKey]) {
+        if (key) {
+          storage.delete(key).catch((error) => console.error('Attachment cleanup error:', error));
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Remove unsent uploads older than ATTACHMENT_UNSENT_TTL_HOURS every hour.
+ * Returns a function that stops the job.
+ */
+export const startAttachmentCleanupJob = () => {
+  if (!(UNSENT_TTL_HOURS > 0)) {
+    return () => {};
+  }
+
+  const run = async () => {
+    try {
+      const purged = await purgeUnsentAttachments(new Date(Date.now() - UNSENT_TTL_HOURS * 60 * 60 * 1000));
+      if (purged > 0) {
+        console.log(`🧹 Removed ${purged} uploads never sent with a message`);
+      }
+    } catch (error) {
+      console.error('Attachment cleanup job error:', error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
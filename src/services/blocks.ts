@@ -0,0 +1,57 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Ids of users the given user blocked or was blocked by. Neither side sees the
+ * other's presence or typing, and neither can open a new conversation.
+ */
+export const getBlockedUserIds = async (userId: string): Promise<string[]> => {
+  const blocks = await prisma.block.findMany({
+    where: {
+      OR: [{ blockerId: userId }, { blockedId: userId }],
+    },
+    select: { blockerId: true, blockedId: true },
+  });
+
+  return [...new Set(blocks.map((block) =>
+    block.blockerId === userId ? block.blockedId : block.blockerId
+  ))];
+};
+
+/**
+ * Ids of the users who blocked the given user; messages from that user are
+ * hidden from them
+ */
+export const getBlockerIds = async (userId: string): Promise<string[]> => {
+  const blocks = await prisma.block.findMany({
+    where: { blockedId: userId },
+    select: { blockerId: true },
+  });
+  return blocks.map((block) => block.blockerId);
+};
+
+/**
+ * Whether `blockerId` has blocked `blockedId`
+ */
+export const hasBlocked = async (blockerId: string, blockedId: string) => {
+  const block = await prisma.block.findUnique({
+    where: { blockerId_blockedId: { blockerId, blockedId } },
+  });
+  return Boolean(block);
+};
+
+/**
+ * Whether either user has blocked the other
+ */
+export const isBlockedEitherWay = async (userId: string, otherUserId: string) => {
+  const count = await prisma.block.count({
+    where: {
+      OR: [
+        { blockerId: userId, blockedId: otherUserId },
+        { blockerId: otherUserId, blockedId: userId },
+      ],
+    },
+  });
+  return count > 0;
+};
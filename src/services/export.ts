@@ -0,0 +1,412 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { Writable } from 'stream';
+import { getReactionSummaries } from './reactions.js';
+import { escapeHtml } from './search.js';
+import { profileSelect } from './users.js';
+import { settingsSelect, presentSettings } from './sessionSettings.js';
+import { listPersonas } from '../ai/personas.js';
+
+const prisma = new PrismaClient();
+
+// Messages loaded per query while streaming an export
+const EXPORT_BATCH_SIZE = 500;
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+export const exportExtensions: Record<ExportFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+  html: 'html',
+};
+
+/**
+ * Writes one chunk of an export, resolving once the stream can take more
+ */
+export type ExportWriter = (chunk: string) => Promise<void>;
+
+/**
+ * The client went away mid-export
+ */
+export class ExportAbortedError extends Error {
+  constructor() {
+    super('Export aborted');
+    this.name = 'ExportAbortedError';
+  }
+}
+
+/**
+ * Write to a stream with backpressure: waits for `drain` before continuing,
+ * and fails with ExportAbortedError once the stream is closed
+ */
+export const createStreamWriter = (stream: Writable): ExportWriter => async (chunk) => {
+  if (stream.destroyed) {
+    throw new ExportAbortedError();
+  }
+  if (!stream.write(chunk)) {
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        stream.off('drain', done);
+        stream.off('close', done);
+        resolve();
+      };
+      stream.on('drain', done);
+      stream.on('close', done);
+    });
+  }
+};
+
+const exportMessageInclude = {
+  sender: { select: { id: true, name: true } },
+  attachments: {
+    select: { id: true, fileName: true, mimeType: true, size: true },
+    orderBy: { createdAt: 'asc' as const },
+  },
+  edits: {
+    select: { content: true, editedAt: true },
+    orderBy: { editedAt: 'asc' as const },
+  },
+} satisfies Prisma.MessageInclude;
+
+const exportSessionInclude = {
+  members: {
+    select: {
+      userId: true,
+      role: true,
+      joinedAt: true,
+      user: { select: { id: true, name: true } },
+    },
+    orderBy: { joinedAt: 'asc' as const },
+  },
+} satisfies Prisma.ChatSessionInclude;
+
+type ExportSession = Prisma.ChatSessionGetPayload<{ include: typeof exportSessionInclude }>;
+type ExportMessage = Awaited<ReturnType<typeof loadMessageBatch>>[number];
+
+/**
+ * Load the next batch of a session's messages visible to the user, oldest first
+ */
+const loadMessageBatch = async (userId: string, sessionId: string, cursor?: string) => {
+  const messages = await prisma.message.findMany({
+    where: {
+      chatSessionId: sessionId,
+      hiddenBy: { none: { userId } },
+    },
+    include: exportMessageInclude,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    take: EXPORT_BATCH_SIZE,
+  });
+
+  const reactions = await getReactionSummaries(messages.map((message) => message.id));
+
+  return messages.map((message) => ({
+    id: message.id,
+    parentId: message.parentId,
+    sender: message.sender,
+    content: message.content,
+    createdAt: message.createdAt,
+    editedAt: message.editedAt,
+    deletedAt: message.deletedAt,
+    edits: message.edits,
+    attachments: message.attachments.map((attachment) => ({
+      ...attachment,
+      url: `/api/attachments/${attachment.id}`,
+    })),
+    reactions: (reactions.get(message.id) ?? []).map(({ emoji, count }) => ({ emoji, count })),
+  }));
+};
+
+/**
+ * Every message of a session visible to the user, loaded in batches
+ */
+async function* iterateMessages(userId: string, sessionId: string) {
+  let cursor: string | undefined;
+  while (true) {
+    const batch = await loadMessageBatch(userId, sessionId, cursor);
+    yield* batch;
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+const sessionTitle = (session: ExportSession, userId: string) => {
+  if (session.isGroup) {
+    return session.name || 'Group conversation';
+  }
+  const other = session.members.find((member) => member.userId !== userId);
+  return `Chat with ${other?.user.name ?? 'unknown user'}`;
+};
+
+const sessionSummary = (session: ExportSession, userId: string) => ({
+  id: session.id,
+  title: sessionTitle(session, userId),
+  isGroup: session.isGroup,
+  createdAt: session.createdAt,
+  members: session.members.map((member) => ({
+    id: member.user.id,
+    name: member.user.name,
+    role: member.role,
+    joinedAt: member.joinedAt,
+  })),
+});
+
+const formatTime = (date: Date) => date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const markdownMessage = (message: ExportMessage) => {
+  const lines = [`### ${message.sender.name} · ${formatTime(message.createdAt)}`, ''];
+
+  if (message.parentId) {
+    lines.push(`_In reply to message ${message.parentId}_`, '');
+  }
+  if (message.deletedAt) {
+    lines.push('_This message was deleted._', '');
+    return lines.join('\n');
+  }
+  if (message.content) {
+    lines.push(message.content, '');
+  }
+  if (message.attachments.length > 0) {
+    lines.push('Attachments:');
+    for (const attachment of message.attachments) {
+      lines.push(`- [${attachment.fileName}](${attachment.url}) (${attachment.mimeType}, ${formatSize(attachment.size)})`);
+    }
+    lines.push('');
+  }
+  if (message.editedAt) {
+    lines.push(`_Edited ${formatTime(message.editedAt)}. Earlier versions:_`);
+    for (const edit of message.edits) {
+      lines.push(`- ${formatTime(edit.editedAt)}: ${edit.content.replace(/\n/g, ' ')}`);
+    }
+    lines.push('');
+  }
+  if (message.reactions.length > 0) {
+    lines.push(`Reactions: ${message.reactions.map(({ emoji, count }) => `${emoji} ${count}`).join(', ')}`, '');
+  }
+
+  return lines.join('\n');
+};
+
+const htmlMessage = (message: ExportMessage) => {
+  const parts = [
+    `<article id="m-${escapeHtml(message.id)}">`,
+    `<header><strong>${escapeHtml(message.sender.name)}</strong> <time datetime="${message.createdAt.toISOString()}">${formatTime(message.createdAt)}</time></header>`,
+  ];
+
+  if (message.parentId) {
+    parts.push(`<p class="meta">In reply to <a href="#m-${escapeHtml(message.parentId)}">an earlier message</a></p>`);
+  }
+  if (message.deletedAt) {
+    parts.push('<p class="meta">This message was deleted.</p></article>');
+    return parts.join('\n');
+  }
+  if (message.content) {
+    parts.push(`<p class="content">${escapeHtml(message.content)}</p>`);
+  }
+  if (message.attachments.length > 0) {
+    parts.push('<ul class="attachments">');
+    for (const attachment of message.attachments) {
+      parts.push(`<li><a href="${escapeHtml(attachment.url)}">${escapeHtml(attachment.fileName)}</a> (${escapeHtml(attachment.mimeType)}, ${formatSize(attachment.size)})</li>`);
+    }
+    parts.push('</ul>');
+  }
+  if (message.editedAt) {
+    parts.push(`<details class="meta"><summary>Edited ${formatTime(message.editedAt)}</summary><ul>`);
+    for (const edit of message.edits) {
+      parts.push(`<li>${formatTime(edit.editedAt)}: ${escapeHtml(edit.content)}</li>`);
+    }
+    parts.push('</ul></details>');
+  }
+  if (message.reactions.length > 0) {
+    parts.push(`<p class="meta">${message.reactions.map(({ emoji, count }) => `${escapeHtml(emoji)} ${count}`).join(' ')}</p>`);
+  }
+  parts.push('</article>');
+
+  return parts.join('\n');
+};
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+article { border-bottom: 1px solid #e5e7eb; padding: 0.75rem 0; }
+time, .meta { color: #6b7280; font-size: 0.875rem; }
+.content { white-space: pre-wrap; margin: 0.25rem 0; }
+`;
+
+/**
+ * Stream a transcript of one session as seen by the user
+ */
+export const exportSession = async (
+  userId: string,
+  session: ExportSession,
+  format: ExportFormat,
+  write: ExportWriter
+) => {
+  const summary = sessionSummary(session, userId);
+  const exportedAt = new Date();
+
+  if (format === 'json') {
+    await write(`{"exportedAt":${JSON.stringify(exportedAt)},"session":${JSON.stringify(summary)},"messages":[`);
+    let first = true;
+    for await (const message of iterateMessages(userId, session.id)) {
+      await write(`${first ? '' : ','}\n${JSON.stringify(message)}`);
+      first = false;
+    }
+    await write('\n]}\n');
+    return;
+  }
+
+  const memberNames = summary.members.map((member) => member.name).join(', ');
+
+  if (format === 'markdown') {
+    await write(`# ${summary.title}\n\nMembers: ${memberNames}\n\nExported ${formatTime(exportedAt)}\n\n---\n\n`);
+    for await (const message of iterateMessages(userId, session.id)) {
+      await write(`${markdownMessage(message)}\n`);
+    }
+    return;
+  }
+
+  await write([
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(summary.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(summary.title)}</h1>`,
+    `<p class="meta">Members: ${escapeHtml(memberNames)}<br>Exported ${formatTime(exportedAt)}</p>`,
+    '',
+  ].join('\n'));
+  for await (const message of iterateMessages(userId, session.id)) {
+    await write(`${htmlMessage(message)}\n`);
+  }
+  await write('</body>\n</html>\n');
+};
+
+/**
+ * Load a session for export, or null when the user is not a member
+ */
+export const findExportableSession = (userId: string, sessionId: string) =>
+  prisma.chatSession.findFirst({
+    where: { id: sessionId, members: { some: { userId } } },
+    include: exportSessionInclude,
+  });
+
+/**
+ * The user's AI usage records, oldest first, loaded in batches
+ */
+async function* iterateAiUsage(userId: string) {
+  let cursor: string | undefined;
+  while (true) {
+    const batch = await prisma.aiUsage.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        chatSessionId: true,
+        messageId: true,
+        purpose: true,
+        model: true,
+        promptTokens: true,
+        completionTokens: true,
+        cancelled: true,
+        createdAt: true,
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      take: EXPORT_BATCH_SIZE,
+    });
+    yield* batch;
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+/**
+ * Stream everything stored about a user as one JSON document: profile,
+ * blocks, uploads, personas, reminders, filed reports, AI usage, and every
+ * conversation with their personal settings
+ */
+export const exportAccount = async (userId: string, write: ExportWriter) => {
+  const profile = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { ...profileSelect, lastSeenAt: true, updatedAt: true },
+  });
+  const blocks = await prisma.block.findMany({
+    where: { blockerId: userId },
+    select: { blockedId: true, createdAt: true },
+  });
+  const attachments = await prisma.attachment.findMany({
+    where: { uploaderId: userId },
+    select: { id: true, messageId: true, fileName: true, mimeType: true, size: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  const personas = await listPersonas(userId);
+  const reminders = await prisma.reminder.findMany({
+    where: { userId },
+    select: { id: true, chatSessionId: true, text: true, remindAt: true, deliveredAt: true, createdAt: true },
+    orderBy: { remindAt: 'asc' },
+  });
+  const reports = await prisma.report.findMany({
+    where: { reporterId: userId },
+    select: { id: true, messageId: true, reason: true, status: true, reviewedAt: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  const memberships = await prisma.chatMember.findMany({
+    where: { userId },
+    select: settingsSelect,
+    orderBy: { joinedAt: 'asc' },
+  });
+
+  await write(`{"exportedAt":${JSON.stringify(new Date())}`);
+  await write(`,"profile":${JSON.stringify(profile)}`);
+  await write(`,"blocks":${JSON.stringify(blocks)}`);
+  await write(`,"attachments":${JSON.stringify(attachments)}`);
+  await write(`,"personas":${JSON.stringify(personas)}`);
+  await write(`,"reminders":${JSON.stringify(reminders)}`);
+  await write(`,"reports":${JSON.stringify(reports)}`);
+
+  await write(',"aiUsage":[');
+  let firstUsage = true;
+  for await (const usage of iterateAiUsage(userId)) {
+    await write(`${firstUsage ? '' : ','}\n${JSON.stringify(usage)}`);
+    firstUsage = false;
+  }
+  await write(']');
+
+  await write(',"sessions":[');
+
+  let firstSession = true;
+  for (const membership of memberships) {
+    const session = await findExportableSession(userId, membership.chatSessionId);
+    if (!session) {
+      continue;
+    }
+
+    await write(`${firstSession ? '' : ','}\n{"session":${JSON.stringify(sessionSummary(session, userId))}`);
+    await write(`,"settings":${JSON.stringify(presentSettings(membership))},"messages":[`);
+    let firstMessage = true;
+    for await (const message of iterateMessages(userId, session.id)) {
+      await write(`${firstMessage ? '' : ','}\n${JSON.stringify(message)}`);
+      firstMessage = false;
+    }
+    await write(']}');
+    firstSession = false;
+  }
+
+  await write('\n]}\n');
+};
@@ -0,0 +1,61 @@
+import { PrismaClient, MemberRole, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Look up a user's membership in a chat session, including the session itself.
+ * Returns null when the session does not exist or the user is not a member.
+ */
+export const findMembership = async (sessionId: string, userId: string) => {
+  return prisma.chatMember.findUnique({
+    where: {
+      chatSessionId_userId: { chatSessionId: sessionId, userId },
+    },
+    include: { chatSession: true },
+  });
+};
+
+/**
+ * Get the ids of every member of a chat session
+ */
+export const getMemberIds = async (sessionId: string): Promise<string[]> => {
+  const members = await prisma.chatMember.findMany({
+    where: { chatSessionId: sessionId },
+    select: { userId: true },
+  });
+  return members.map((member) => member.userId);
+};
+
+/**
+ * Whether a role is allowed to manage the member list of a group
+ */
+export const canManageMembers = (role: MemberRole) => {
+  return role === MemberRole.OWNER || role === MemberRole.ADMIN;
+};
+
+/**
+ * Remove a member from a group, handing ownership to the longest-standing
+ * admin (or failing that the oldest member) when the owner leaves.
+ * Returns the ids of the members that remain.
+ */
+export const leaveGroup = async (
+  membership: { id: string; chatSessionId: string; role: MemberRole },
+  client: Prisma.TransactionClient = prisma
+) => {
+  await client.chatMember.delete({ where: { id: membership.id } });
+
+  const remaining = await client.chatMember.findMany({
+    where: { chatSessionId: membership.chatSessionId },
+    orderBy: { joinedAt: 'asc' },
+  });
+
+  if (membership.role === MemberRole.OWNER && remaining.length > 0) {
+    const successor = remaining.find((m) => m.role === MemberRole.ADMIN) || remaining[0];
+    await client.chatMember.update({
+      where: { id: successor.id },
+      data: { role: MemberRole.OWNER },
+    });
+  }
+
+  return remaining.map((m) => m.userId);
+};
@@ -0,0 +1,752 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { findMembership, getMemberIds } from './membership.js';
+import { attachmentSelect, presentAttachment, validateAttachmentIds } from './attachments.js';
+import { getStorage } from './storage.js';
+import { withReactions } from './reactions.js';
+import { getBlockerIds, hasBlocked } from './blocks.js';
+import { pushUnreadCounts } from './unread.js';
+import { notMutedWhere, unarchiveSession } from './sessionSettings.js';
+import { DELETED_USER_ID } from './accounts.js';
+import { moderateContent, moderateBotContent, flagMessage } from './moderation.js';
+import { emitToSession, emitToUsers } from '../socketInstance.js';
+
+const prisma = new PrismaClient();
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+// How long after sending a message its sender may still edit it (0 disables the limit)
+const EDIT_WINDOW_MINUTES = Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES ?? 15);
+
+// Characters of the parent message quoted in replies
+const QUOTE_SNIPPET_LENGTH = 200;
+
+/**
+ * Tools the AI assistant called while writing a reply, shown with the reply
+ */
+export const toolCallSelect = {
+  id: true,
+  name: true,
+  arguments: true,
+  result: true,
+  error: true,
+  durationMs: true,
+  createdAt: true,
+} satisfies Prisma.AiToolCallSelect;
+
+/**
+ * Relations included with every message returned to clients
+ */
+export const messageInclude = {
+  // isBot marks messages written by the AI assistant or a persona
+  sender: {
+    select: { id: true, name: true, picture: true, isBot: true },
+  },
+  receiver: {
+    select: { id: true, name: true, picture: true },
+  },
+  attachments: {
+    select: attachmentSelect,
+    orderBy: { createdAt: 'asc' as const },
+  },
+  parent: {
+    select: {
+      id: true,
+      content: true,
+      senderId: true,
+      deletedAt: true,
+      sender: { select: { id: true, name: true } },
+    },
+  },
+  toolCalls: {
+    select: toolCallSelect,
+    orderBy: { createdAt: 'asc' as const },
+  },
+  _count: {
+    select: { replies: true },
+  },
+};
+
+type MessageWithRelations = Prisma.MessageGetPayload<{ include: typeof messageInclude }>;
+
+export interface MessagePageOptions {
+  before?: string;
+  after?: string;
+  limit?: number;
+  // Only return direct replies to this message
+  parentId?: string;
+}
+
+export type DeleteScope = 'me' | 'everyone';
+
+export interface SendMessageInput {
+  chatSessionId: string;
+  content: string;
+  attachmentIds?: string[];
+  clientMessageId?: string;
+  parentId?: string;
+}
+
+export interface SyncOptions {
+  since?: string;
+  sinceTime?: Date;
+  // Last `updated` message of the previous page
+  updatedAfter?: string;
+  limit?: number;
+}
+
+/**
+ * A message edit/delete that was rejected, with the HTTP status to report
+ */
+export class MessageActionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'MessageActionError';
+  }
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Shape messages for clients: reaction summaries, a reply count, attachment
+ * download routes and, for replies, a short quote of the parent (empty once
+ * the parent is deleted)
+ */
+export const presentMessages = async <T extends MessageWithRelations>(messages: T[]) => {
+  const withSummaries = await withReactions(messages);
+  return withSummaries.map(({ _count, parent, attachments, ...message }) => ({
+    ...message,
+    attachments: attachments.map(presentAttachment),
+    replyCount: _count.replies,
+    parent: parent && {
+      ...parent,
+      content: parent.deletedAt ? '' : parent.content.slice(0, QUOTE_SNIPPET_LENGTH),
+    },
+  }));
+};
+
+/**
+ * Fetch one page of a session's messages as seen by `viewerId`, always
+ * returned oldest first.
+ *
+ * Without a cursor the latest page is returned. `before` pages backwards
+ * (scroll-back) and `after` pages forwards from the given message id.
+ * `hasMore` says whether further messages exist in the paging direction and
+ * `nextCursor` is the id to pass as the next `before`/`after` value.
+ */
+export const getMessagePage = async (
+  sessionId: string,
+  viewerId: string,
+  options: MessagePageOptions = {}
+) => {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const cursorId = options.after || options.before;
+  const forward = Boolean(options.after);
+
+  if (cursorId) {
+    const cursorMessage = await prisma.message.findFirst({
+      where: {
+        id: cursorId,
+        chatSessionId: sessionId,
+        ...(options.parentId ? { parentId: options.parentId } : {}),
+      },
+      select: { id: true },
+    });
+    if (!cursorMessage) {
+      throw new InvalidCursorError();
+    }
+  }
+
+  const direction = forward ? 'asc' : 'desc';
+  const rows = await prisma.message.findMany({
+    where: {
+      chatSessionId: sessionId,
+      ...(options.parentId ? { parentId: options.parentId } : {}),
+      // Skip messages the viewer deleted for themselves
+      hiddenBy: { none: { userId: viewerId } },
+    },
+    include: messageInclude,
+    orderBy: [{ createdAt: direction }, { id: direction }],
+    ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const messages = await presentMessages(forward ? page : page.reverse());
+
+  let nextCursor: string | null = null;
+  if (hasMore && messages.length > 0) {
+    nextCursor = forward ? messages[messages.length - 1].id : messages[0].id;
+  }
+
+  return { messages, hasMore, nextCursor };
+};
+
+/**
+ * Create a message in a session the sender belongs to and broadcast it.
+ *
+ * The receiver is derived from the session (the other member of a 1:1 chat,
+ * none for groups). When the sender supplies a `clientMessageId` that was
+ * already stored, the original message is returned with `duplicate: true`
+ * and nothing is broadcast again, so clients can safely retry.
+ *
+ * A reply names its `parentId`, which must be a message in the same session.
+ *
+ * Members who blocked the sender never receive the message: it is stored as
+ * hidden for them. Members who muted the session still receive it but get no
+ * `notification` event, and the session leaves everyone's archive. The content
+ * goes through moderation first, which may reject it, mask parts of it or
+ * queue it for review.
+ */
+export const sendMessage = async (userId: string, input: SendMessageInput) => {
+  const { chatSessionId, content, attachmentIds = [], clientMessageId, parentId } = input;
+
+  if (clientMessageId) {
+    const existing = await prisma.message.findUnique({
+      where: { senderId_clientMessageId: { senderId: userId, clientMessageId } },
+      include: messageInclude,
+    });
+    if (existing) {
+      const [message] = await presentMessages([existing]);
+      return { message, duplicate: true };
+    }
+  }
+
+  if (!content.trim() && attachmentIds.length === 0) {
+    throw new MessageActionError('Message content is required', 400);
+  }
+
+  const membership = await findMembership(chatSessionId, userId);
+  if (!membership) {
+    throw new MessageActionError('Session not found', 404);
+  }
+
+  if (parentId) {
+    const parent = await prisma.message.findFirst({
+      where: { id: parentId, chatSessionId },
+      select: { deletedAt: true },
+    });
+    if (!parent) {
+      throw new MessageActionError('Parent message not found', 400);
+    }
+    if (parent.deletedAt) {
+      throw new MessageActionError('Deleted messages cannot be replied to', 400);
+    }
+  }
+
+  const memberIds = await getMemberIds(chatSessionId);
+  const receiverId = membership.chatSession.isGroup
+    ? null
+    : memberIds.find((id) => id !== userId) ?? null;
+
+  if (receiverId === DELETED_USER_ID) {
+    throw new MessageActionError('This account has been deleted', 403);
+  }
+  if (receiverId && await hasBlocked(userId, receiverId)) {
+    throw new MessageActionError('Unblock this user to send them messages', 403);
+  }
+
+  const blockerIds = await getBlockerIds(userId);
+  const hiddenFrom = memberIds.filter((id) => blockerIds.includes(id));
+  const recipientIds = memberIds.filter((id) => !hiddenFrom.includes(id));
+
+  const moderation = await moderateContent(content);
+  if (moderation.blocked) {
+    throw new MessageActionError('This message was blocked by content moderation', 422);
+  }
+
+  const validAttachmentIds = await validateAttachmentIds(userId, attachmentIds);
+
+  let created;
+  try {
+    created = await prisma.message.create({
+      data: {
+        content: moderation.content,
+        senderId: userId,
+        receiverId,
+        chatSessionId,
+        clientMessageId,
+        parentId,
+        attachments: {
+          connect: validAttachmentIds.map((id) => ({ id })),
+        },
+        hiddenBy: {
+          create: hiddenFrom.map((hiddenUserId) => ({ userId: hiddenUserId })),
+        },
+      },
+      include: messageInclude,
+    });
+  } catch (error) {
+    // A concurrent retry with the same client id won the race
+    if (clientMessageId && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await prisma.message.findUniqueOrThrow({
+        where: { senderId_clientMessageId: { senderId: userId, clientMessageId } },
+        include: messageInclude,
+      });
+      const [message] = await presentMessages([existing]);
+      return { message, duplicate: true };
+    }
+    throw error;
+  }
+
+  const message = await broadcastNewMessage(created, recipientIds, hiddenFrom);
+  await flagMessage(created.id, moderation.flags);
+
+  return { message, duplicate: false };
+};
+
+/**
+ * Fan a newly created message out: bump the session, emit `new-message` to
+ * every recipient's devices (including the sender's other tabs; the frontend
+ * deduplicates), unarchive, push unread counts, notify unmuted members and
+ * update the parent's thread.
+ */
+const broadcastNewMessage = async (
+  created: MessageWithRelations,
+  recipientIds: string[],
+  hiddenFrom: string[]
+) => {
+  const { chatSessionId, parentId, senderId } = created;
+
+  // Update session updatedAt
+  await prisma.chatSession.update({
+    where: { id: chatSessionId },
+    data: { updatedAt: new Date() },
+  });
+
+  const [message] = await presentMessages([created]);
+
+  emitToSession(chatSessionId, recipientIds, 'new-message', message, hiddenFrom);
+
+  await unarchiveSession(chatSessionId, recipientIds);
+
+  const notifiedMembers = await prisma.chatMember.findMany({
+    where: {
+      chatSessionId,
+      userId: { in: recipientIds.filter((id) => id !== senderId) },
+      ...notMutedWhere(),
+    },
+    select: { userId: true },
+  });
+  pushUnreadCounts(recipientIds.filter((id) => id !== senderId), chatSessionId);
+
+  emitToUsers(notifiedMembers.map((member) => member.userId), 'notification', {
+    chatSessionId,
+    messageId: message.id,
+    sender: message.sender,
+    preview: message.content.slice(0, QUOTE_SNIPPET_LENGTH),
+  });
+
+  if (parentId) {
+    const replyCount = await prisma.message.count({ where: { parentId } });
+    emitToSession(chatSessionId, recipientIds, 'thread-updated', {
+      chatSessionId,
+      messageId: parentId,
+      replyCount,
+      lastReply: message,
+    }, hiddenFrom);
+  }
+
+  return message;
+};
+
+export interface BotMessageInput {
+  chatSessionId: string;
+  content: string;
+  parentId?: string;
+  // Members who must not see the message, e.g. those who hid what it answers
+  hiddenFrom?: string[];
+  // Who reads the message in 1:1 sessions; null in groups
+  receiverId?: string | null;
+  // Makes the post idempotent, like a device-generated id on user messages
+  clientMessageId?: string;
+}
+
+/**
+ * Post a message written by a bot account (which is not a session member)
+ * into a conversation after moderating it, and deliver it like any other new
+ * message
+ */
+export const postBotMessage = async (botId: string, input: BotMessageInput) => {
+  const { chatSessionId, content, parentId, hiddenFrom = [], receiverId = null, clientMessageId } = input;
+
+  const memberIds = await getMemberIds(chatSessionId);
+  const recipientIds = memberIds.filter((id) => !hiddenFrom.includes(id));
+  const moderation = await moderateBotContent(content);
+
+  const created = await prisma.message.create({
+    data: {
+      content: moderation.content,
+      senderId: botId,
+      receiverId,
+      chatSessionId,
+      parentId,
+      clientMessageId,
+      hiddenBy: {
+        create: hiddenFrom.map((hiddenUserId) => ({ userId: hiddenUserId })),
+      },
+    },
+    include: messageInclude,
+  });
+  await flagMessage(created.id, moderation.flags);
+
+  return broadcastNewMessage(created, recipientIds, hiddenFrom);
+};
+
+/**
+ * Record that one of the user's devices received messages in a session and
+ * tell the other members. 1:1 messages get `deliveredAt`; group conversations
+ * keep a per-member delivery marker instead, like read receipts.
+ */
+export const markDelivered = async (userId: string, sessionId: string, messageIds: string[]) => {
+  const membership = await findMembership(sessionId, userId);
+  if (!membership) {
+    throw new MessageActionError('Session not found', 404);
+  }
+
+  const deliveredAt = new Date();
+  const { isGroup } = membership.chatSession;
+
+  // Ids come from the client: keep only messages of this session the user received
+  const received = await prisma.message.findMany({
+    where: {
+      id: { in: messageIds },
+      chatSessionId: sessionId,
+      senderId: { not: userId },
+      hiddenBy: { none: { userId } },
+      ...(isGroup ? {} : { receiverId: userId, deliveredAt: null }),
+    },
+    select: { id: true },
+  });
+  const deliveredIds = received.map((message) => message.id);
+
+  if (deliveredIds.length === 0) {
+    // Unknown ids, or everything was already delivered to another device
+    return { count: 0, deliveredAt };
+  }
+
+  let count = deliveredIds.length;
+  if (isGroup) {
+    await prisma.chatMember.update({
+      where: { id: membership.id },
+      data: { lastDeliveredAt: deliveredAt },
+    });
+  } else {
+    ({ count } = await prisma.message.updateMany({
+      where: { id: { in: deliveredIds }, deliveredAt: null },
+      data: { deliveredAt },
+    }));
+  }
+
+  const memberIds = await getMemberIds(sessionId);
+  emitToUsers(memberIds.filter((memberId) => memberId !== userId), 'messages-delivered', {
+    sessionId,
+    messageIds: deliveredIds,
+    userId,
+    deliveredAt,
+  });
+
+  return { count, deliveredAt };
+};
+
+/**
+ * Everything a device missed across the user's conversations since a message
+ * id or a timestamp, oldest first.
+ *
+ * `messages` are new messages in pages of `limit`; pass `nextCursor` as the
+ * next `since` while `hasMore` is true. `updated` lists older messages that
+ * were edited or deleted for everyone after the given point, paged the same
+ * way: repeat the request with `updatedAfter` set to `updatedNextCursor` while
+ * `updatedHasMore` is true. Returned messages addressed to the user are marked
+ * delivered.
+ */
+export const getMissedMessages = async (userId: string, options: SyncOptions) => {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  // Taken before querying so it is safe to pass back as the next sinceTime
+  const serverTime = new Date();
+
+  const findCursor = async (id: string) => {
+    const cursorMessage = await prisma.message.findFirst({
+      where: {
+        id,
+        chatSession: { members: { some: { userId } } },
+      },
+      select: { id: true, createdAt: true },
+    });
+    if (!cursorMessage) {
+      throw new InvalidCursorError();
+    }
+    return cursorMessage;
+  };
+
+  let sinceTime = options.sinceTime ?? new Date(0);
+  let sinceId: string | undefined;
+  if (options.since) {
+    ({ createdAt: sinceTime, id: sinceId } = await findCursor(options.since));
+  }
+  const updatedCursor = options.updatedAfter ? await findCursor(options.updatedAfter) : null;
+
+  const visible: Prisma.MessageWhereInput = {
+    chatSession: { members: { some: { userId } } },
+    hiddenBy: { none: { userId } },
+  };
+
+  const rows = await prisma.message.findMany({
+    where: {
+      ...visible,
+      OR: sinceId
+        ? [
+            { createdAt: { gt: sinceTime } },
+            { createdAt: sinceTime, id: { gt: sinceId } },
+          ]
+        : [{ createdAt: { gt: sinceTime } }],
+    },
+    include: messageInclude,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const messages = rows.slice(0, limit);
+
+  const updatedRows = await prisma.message.findMany({
+    where: {
+      ...visible,
+      createdAt: { lte: sinceTime },
+      OR: [{ editedAt: { gt: sinceTime } }, { deletedAt: { gt: sinceTime } }],
+      ...(updatedCursor && {
+        AND: {
+          OR: [
+            { createdAt: { gt: updatedCursor.createdAt } },
+            { createdAt: updatedCursor.createdAt, id: { gt: updatedCursor.id } },
+          ],
+        },
+      }),
+    },
+    include: messageInclude,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+  });
+
+  const updatedHasMore = updatedRows.length > limit;
+  const updated = updatedRows.slice(0, limit);
+
+  // Fetching the messages counts as this device receiving them
+  const undeliveredBySession = new Map<string, string[]>();
+  for (const message of messages) {
+    if (message.receiverId === userId && !message.deliveredAt) {
+      const ids = undeliveredBySession.get(message.chatSessionId) ?? [];
+      ids.push(message.id);
+      undeliveredBySession.set(message.chatSessionId, ids);
+    }
+  }
+  for (const [sessionId, ids] of undeliveredBySession) {
+    await markDelivered(userId, sessionId, ids);
+  }
+
+  return {
+    messages: await presentMessages(messages),
+    updated: await presentMessages(updated),
+    hasMore,
+    nextCursor: messages.length > 0 ? messages[messages.length - 1].id : options.since ?? null,
+    updatedHasMore,
+    updatedNextCursor: updated.length > 0 ? updated[updated.length - 1].id : options.updatedAfter ?? null,
+    serverTime,
+  };
+};
+
+/**
+ * Fetch a message together with one page of its direct replies, oldest first.
+ * Accepts the same paging options as `getMessagePage`.
+ */
+export const getThread = async (
+  userId: string,
+  messageId: string,
+  options: Omit<MessagePageOptions, 'parentId'> = {}
+) => {
+  const root = await findVisibleMessage(userId, messageId);
+  const [parent] = await presentMessages([
+    await prisma.message.findUniqueOrThrow({ where: { id: root.id }, include: messageInclude }),
+  ]);
+
+  const page = await getMessagePage(root.chatSessionId, userId, { ...options, parentId: root.id });
+
+  return { parent, ...page };
+};
+
+/**
+ * Ids of the users a message is hidden from (deleted for themselves, or
+ * withheld because they blocked the sender)
+ */
+const getHiddenForIds = async (messageId: string) => {
+  const hidden = await prisma.hiddenMessage.findMany({
+    where: { messageId },
+    select: { userId: true },
+  });
+  return hidden.map((entry) => entry.userId);
+};
+
+/**
+ * Load a message the user can see, failing with 404 when it does not exist,
+ * is hidden from the user, or the user is not a member of its session
+ */
+const findVisibleMessage = async (userId: string, messageId: string) => {
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, hiddenBy: { none: { userId } } },
+  });
+  if (!message || !(await findMembership(message.chatSessionId, userId))) {
+    throw new MessageActionError('Message not found', 404);
+  }
+  return message;
+};
+
+/**
+ * Edit a message's content. Only the sender may edit, and only within the
+ * configured edit window. The previous content is kept in the edit history.
+ * The new content is moderated like a new message.
+ */
+export const editMessage = async (userId: string, messageId: string, content: string) => {
+  const message = await findVisibleMessage(userId, messageId);
+
+  if (message.senderId !== userId) {
+    throw new MessageActionError('Only the sender can edit this message', 403);
+  }
+  if (message.deletedAt) {
+    throw new MessageActionError('Deleted messages cannot be edited', 400);
+  }
+  if (EDIT_WINDOW_MINUTES > 0 &&
+      Date.now() - message.createdAt.getTime() > EDIT_WINDOW_MINUTES * 60 * 1000) {
+    throw new MessageActionError('The edit window for this message has passed', 403);
+  }
+  if (message.content === content) {
+    const [current] = await presentMessages([
+      await prisma.message.findUniqueOrThrow({ where: { id: messageId }, include: messageInclude }),
+    ]);
+    return current;
+  }
+
+  const moderation = await moderateContent(content);
+  if (moderation.blocked) {
+    throw new MessageActionError('This message was blocked by content moderation', 422);
+  }
+
+  const [, edited] = await prisma.$transaction([
+    prisma.messageEdit.create({
+      data: { messageId, content: message.content },
+    }),
+    prisma.message.update({
+      where: { id: messageId },
+      data: { content: moderation.content, editedAt: new Date() },
+      include: messageInclude,
+    }),
+  ]);
+
+  const [updated] = await presentMessages([edited]);
+
+  emitToSession(
+    message.chatSessionId,
+    await getMemberIds(message.chatSessionId),
+    'message-updated',
+    updated,
+    await getHiddenForIds(messageId)
+  );
+  await flagMessage(messageId, moderation.flags);
+
+  return updated;
+};
+
+/**
+ * Delete a message either for the caller only or, for its sender, for everyone.
+ * Deleting for everyone clears the content, edit history, attachments and
+ * reactions but keeps the row so the conversation still shows where the
+ * message was.
+ */
+export const deleteMessage = async (userId: string, messageId: string, scope: DeleteScope) => {
+  const message = await findVisibleMessage(userId, messageId);
+
+  if (scope === 'me') {
+    await prisma.hiddenMessage.upsert({
+      where: { messageId_userId: { messageId, userId } },
+      create: { messageId, userId },
+      update: {},
+    });
+
+    // Only the caller's own devices need to drop the message
+    const payload = { messageId, chatSessionId: message.chatSessionId, scope };
+    emitToUsers([userId], 'message-deleted', payload);
+    pushUnreadCounts([userId], message.chatSessionId);
+    return payload;
+  }
+
+  if (message.senderId !== userId) {
+    throw new MessageActionError('Only the sender can delete this message for everyone', 403);
+  }
+
+  return removeMessage(message, userId);
+};
+
+/**
+ * Delete a message for everyone: clear its content, edit history,
+ * attachments and reactions and tell the members. `removedBy` is the sender
+ * or the admin who removed it, whose unread count is left alone.
+ */
+export const removeMessage = async (
+  message: { id: string; chatSessionId: string; deletedAt: Date | null },
+  removedBy: string
+) => {
+  const messageId = message.id;
+  const deletedAt = message.deletedAt ?? new Date();
+  const attachments = await prisma.attachment.findMany({ where: { messageId } });
+  await prisma.$transaction([
+    prisma.messageEdit.deleteMany({ where: { messageId } }),
+    prisma.attachment.deleteMany({ where: { messageId } }),
+    prisma.reaction.deleteMany({ where: { messageId } }),
+    prisma.message.update({
+      where: { id: messageId },
+      data: { content: '', deletedAt },
+    }),
+  ]);
+
+  // Files are removed after the rows so a storage failure never blocks the delete
+  const storage = getStorage();
+  for (const attachment of attachments) {
+    for (const key of [attachment.storageKey, attachment.thumbnailKey]) {
+      if (key) {
+        storage.delete(key).catch((error) => console.error('Attachment cleanup error:', error));
+      }
+    }
+  }
+
+  const payload = { messageId, chatSessionId: message.chatSessionId, scope: 'everyone' as const, deletedAt };
+  const memberIds = await getMemberIds(message.chatSessionId);
+  emitToSession(message.chatSessionId, memberIds, 'message-deleted', payload);
+  pushUnreadCounts(memberIds.filter((id) => id !== removedBy), message.chatSessionId);
+
+  return payload;
+};
+
+/**
+ * Get the previous versions of a message, oldest first
+ */
+export const getMessageHistory = async (userId: string, messageId: string) => {
+  const message = await findVisibleMessage(userId, messageId);
+
+  const edits = await prisma.messageEdit.findMany({
+    where: { messageId },
+    orderBy: { editedAt: 'asc' },
+  });
+
+  return {
+    messageId,
+    content: message.content,
+    editedAt: message.editedAt,
+    deletedAt: message.deletedAt,
+    edits,
+  };
+};
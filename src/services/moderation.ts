@@ -0,0 +1,202 @@
+import { PrismaClient } from '@prisma/client';
+import fs from 'fs';
+import { z } from 'zod';
+import { resolveAiSettings } from '../ai/config.js';
+import { completeChat, getLlmProvider } from '../ai/providers.js';
+
+const prisma = new PrismaClient();
+
+// JSON file with extra word lists and regex rules (see README)
+const RULES_FILE = process.env.MODERATION_RULES_FILE;
+// What to do when the model-based classifier flags a message: off, flag or block
+const CLASSIFIER_ACTION = process.env.MODERATION_CLASSIFIER ?? 'off';
+// Longest the classifier may take before the message goes through unchecked
+const CLASSIFIER_TIMEOUT_MS = 5000;
+
+// Stored instead of bot output that a rule or the classifier blocks
+const WITHHELD_BOT_MESSAGE = 'This reply was withheld by content moderation.';
+
+const CLASSIFIER_PROMPT = [
+  'You are a content moderator for a chat app. Decide whether the message below contains harassment,',
+  'hate speech, threats, sexual content involving minors, or spam.',
+  'Reply with JSON only: {"flagged": true or false, "category": "short label or null"}.',
+].join(' ');
+
+/**
+ * block: the message is rejected. flag: it is delivered and queued for
+ * review. mask: matches are replaced with asterisks before it is stored.
+ */
+export type ModerationAction = 'block' | 'flag' | 'mask';
+
+interface ModerationRule {
+  pattern: RegExp;
+  action: ModerationAction;
+  label: string;
+}
+
+export interface ModerationResult {
+  // Content to store, with masked matches replaced
+  content: string;
+  blocked: boolean;
+  // Why the message goes to the review queue; empty when it does not
+  flags: string[];
+}
+
+const actionSchema = z.enum(['block', 'flag', 'mask']);
+
+const rulesFileSchema = z.object({
+  words: z.record(actionSchema, z.array(z.string().min(1))).default({}),
+  patterns: z.array(z.object({
+    pattern: z.string().min(1),
+    flags: z.string().default('i'),
+    action: actionSchema,
+    label: z.string().optional(),
+  })).default([]),
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, so "class" does not match "ass"
+const wordRule = (word: string, action: ModerationAction): ModerationRule => ({
+  pattern: new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(word.trim())}(?![\\p{L}\\p{N}_])`, 'giu'),
+  action,
+  label: `word "${word.trim()}"`,
+});
+
+const envWords = (name: string) =>
+  (process.env[name] ?? '').split(',').map((word) => word.trim()).filter(Boolean);
+
+/**
+ * Rules from MODERATION_BLOCK_WORDS / _FLAG_WORDS / _MASK_WORDS and from
+ * MODERATION_RULES_FILE. An unreadable rules file stops the server at startup.
+ */
+const loadRules = () => {
+  const rules: ModerationRule[] = [
+    ...envWords('MODERATION_BLOCK_WORDS').map((word) => wordRule(word, 'block')),
+    ...envWords('MODERATION_FLAG_WORDS').map((word) => wordRule(word, 'flag')),
+    ...envWords('MODERATION_MASK_WORDS').map((word) => wordRule(word, 'mask')),
+  ];
+
+  if (RULES_FILE) {
+    const file = rulesFileSchema.parse(JSON.parse(fs.readFileSync(RULES_FILE, 'utf8')));
+    for (const [action, words] of Object.entries(file.words) as [ModerationAction, string[]][]) {
+      rules.push(...words.map((word) => wordRule(word, action)));
+    }
+    for (const { pattern, flags, action, label } of file.patterns) {
+      rules.push({
+        // Global so every match is masked
+        pattern: new RegExp(pattern, flags.includes('g') ? flags : `${flags}g`),
+        action,
+        label: label ?? `pattern /${pattern}/`,
+      });
+    }
+  }
+
+  return rules;
+};
+
+const rules = loadRules();
+
+/**
+ * Ask the AI provider whether a message is harmful. Any failure lets the
+ * message through, so an outage never stops people from chatting.
+ */
+const classify = async (content: string) => {
+  if (CLASSIFIER_ACTION === 'off' || !content.trim() || !getLlmProvider().isConfigured()) {
+    return null;
+  }
+
+  try {
+    const reply = await Promise.race([
+      completeChat({
+        model: resolveAiSettings().model,
+        messages: [
+          { role: 'system', content: CLASSIFIER_PROMPT },
+          { role: 'user', content },
+        ],
+        maxTokens: 60,
+        temperature: 0,
+      }),
+      new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('Classifier timed out')), CLASSIFIER_TIMEOUT_MS).unref();
+      }),
+    ]);
+    const verdict = JSON.parse(reply.slice(reply.indexOf('{'), reply.lastIndexOf('}') + 1));
+    return verdict?.flagged === true ? `classifier: ${verdict.category || 'flagged'}` : null;
+  } catch (error) {
+    console.error('Moderation classifier error:', error);
+    return null;
+  }
+};
+
+/**
+ * Check a message against the rules only. Synchronous, so streamed text can
+ * be checked as it grows.
+ */
+export const applyModerationRules = (content: string): ModerationResult => {
+  let masked = content;
+  const flags: string[] = [];
+
+  for (const rule of rules) {
+    rule.pattern.lastIndex = 0;
+    if (!rule.pattern.test(content)) {
+      continue;
+    }
+    if (rule.action === 'block') {
+      return { content, blocked: true, flags: [rule.label] };
+    }
+    if (rule.action === 'flag') {
+      flags.push(rule.label);
+    } else {
+      masked = masked.replace(rule.pattern, (match) => '*'.repeat([...match].length));
+    }
+  }
+
+  return { content: masked, blocked: false, flags };
+};
+
+/**
+ * Check a message against the rules and, when enabled, the classifier. The
+ * classifier only runs when no rule blocked the message.
+ */
+export const moderateContent = async (content: string): Promise<ModerationResult> => {
+  const result = applyModerationRules(content);
+  if (result.blocked) {
+    return result;
+  }
+
+  const classification = await classify(content);
+  if (classification && CLASSIFIER_ACTION === 'block') {
+    return { content, blocked: true, flags: [classification] };
+  }
+  if (classification) {
+    result.flags.push(classification);
+  }
+
+  return result;
+};
+
+/**
+ * Check text written by a bot, which goes through the same rules as people's
+ * messages. Nobody can rewrite blocked output, so it is replaced with a notice
+ * and queued for review instead of being rejected.
+ */
+export const moderateBotContent = async (content: string): Promise<ModerationResult> => {
+  const moderation = await moderateContent(content);
+  if (!moderation.blocked) {
+    return moderation;
+  }
+  return { content: WITHHELD_BOT_MESSAGE, blocked: true, flags: moderation.flags };
+};
+
+/**
+ * Queue a message for admin review after moderation flagged it
+ */
+export const flagMessage = async (messageId: string, flags: string[]) => {
+  if (flags.length === 0) {
+    return;
+  }
+  await prisma.report.create({
+    data: { messageId, reason: `Flagged automatically: ${flags.join(', ')}` },
+  });
+};
@@ -0,0 +1,227 @@
+import { randomUUID } from 'crypto';
+import { createRedisClient } from '../realtime/redis.js';
+
+export type DeviceStatus = 'online' | 'away';
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface PresenceChange {
+  previous: PresenceStatus;
+  current: PresenceStatus;
+}
+
+/**
+ * Tracks every connected device of every user, shared by all server instances
+ */
+export interface PresenceStore {
+  /** Track a newly connected socket */
+  addSocket(userId: string, socketId: string): Promise<PresenceChange>;
+  /** Stop tracking a disconnected socket */
+  removeSocket(userId: string, socketId: string): Promise<PresenceChange>;
+  /** Mark one device as active or idle */
+  setSocketStatus(userId: string, socketId: string, status: DeviceStatus): Promise<PresenceChange>;
+  getPresence(userId: string): Promise<PresenceStatus>;
+  getOnlineUserIds(): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * A user is online if any device is active, away if every device is idle,
+ * and offline with no connected devices
+ */
+const aggregate = (statuses: Iterable<string>): PresenceStatus => {
+  let hasDevice = false;
+  for (const status of statuses) {
+    if (status === 'online') {
+      return 'online';
+    }
+    hasDevice = true;
+  }
+  return hasDevice ? 'away' : 'offline';
+};
+
+/**
+ * Presence held in process memory. Shared by every server instance in the
+ * same process, so it also backs local multi-instance testing.
+ */
+export const createMemoryPresenceStore = (): PresenceStore => {
+  // userId -> (socketId -> status of that device)
+  const devices = new Map<string, Map<string, DeviceStatus>>();
+
+  const presenceOf = (userId: string) => aggregate(devices.get(userId)?.values() ?? []);
+
+  return {
+    async addSocket(userId, socketId) {
+      const previous = presenceOf(userId);
+      if (!devices.has(userId)) {
+        devices.set(userId, new Map());
+      }
+      devices.get(userId)!.set(socketId, 'online');
+      return { previous, current: presenceOf(userId) };
+    },
+    async removeSocket(userId, socketId) {
+      const previous = presenceOf(userId);
+      const userDevices = devices.get(userId);
+      userDevices?.delete(socketId);
+      if (userDevices && userDevices.size === 0) {
+        devices.delete(userId);
+      }
+      return { previous, current: presenceOf(userId) };
+    },
+    async setSocketStatus(userId, socketId, status) {
+      const previous = presenceOf(userId);
+      const userDevices = devices.get(userId);
+      if (userDevices?.has(socketId)) {
+        userDevices.set(socketId, status);
+      }
+      return { previous, current: presenceOf(userId) };
+    },
+    async getPresence(userId) {
+      return presenceOf(userId);
+    },
+    async getOnlineUserIds() {
+      return Array.from(devices.keys());
+    },
+    async close() {
+      devices.clear();
+    },
+  };
+};
+
+// Atomically update one device and return the user's device statuses before
+// and after. ARGV[2] is the new status, or '' to remove the device. With
+// ARGV[4] = '0' only an existing device is updated.
+const UPDATE_DEVICE_SCRIPT = `
+local before = redis.call('HVALS', KEYS[1])
+if ARGV[2] == '' then
+  redis.call('HDEL', KEYS[1], ARGV[1])
+elseif ARGV[4] == '1' or redis.call('HEXISTS', KEYS[1], ARGV[1]) == 1 then
+  redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+end
+local after = redis.call('HVALS', KEYS[1])
+if #after == 0 then
+  redis.call('SREM', KEYS[2], ARGV[3])
+else
+  redis.call('SADD', KEYS[2], ARGV[3])
+end
+return {before, after}
+`;
+
+// How often each instance proves it is alive, and how long until it counts as dead
+const HEARTBEAT_MS = 10_000;
+const INSTANCE_TTL_MS = 30_000;
+
+/**
+ * Presence held in a Redis-compatible server, for multiple instances
+ * behind a load balancer.
+ *
+ * Every instance also records which sockets it holds and keeps an expiring
+ * heartbeat key. On each heartbeat the instances remove the devices of any
+ * instance whose key expired, so users of a crashed instance go offline.
+ */
+export const createRedisPresenceStore = (url?: string): PresenceStore => {
+  const redis = createRedisClient(url);
+  const onlineKey = 'presence:online';
+  const instancesKey = 'presence:instances';
+  const userKey = (userId: string) => `presence:user:${userId}`;
+  const aliveKey = (instanceId: string) => `presence:instance:${instanceId}:alive`;
+  const socketsKey = (instanceId: string) => `presence:instance:${instanceId}:sockets`;
+
+  const instanceId = randomUUID();
+
+  // Sockets connected to this instance, removed again on a graceful shutdown
+  const localSockets = new Map<string, string>(); // socketId -> userId
+
+  const updateDevice = async (
+    userId: string,
+    socketId: string,
+    status: DeviceStatus | '',
+    create: boolean
+  ): Promise<PresenceChange> => {
+    const [before, after] = await redis.eval(
+      UPDATE_DEVICE_SCRIPT,
+      2,
+      userKey(userId),
+      onlineKey,
+      socketId,
+      status,
+      userId,
+      create ? '1' : '0'
+    ) as [string[], string[]];
+    return { previous: aggregate(before), current: aggregate(after) };
+  };
+
+  // Drop the devices of instances that stopped sending heartbeats
+  const removeDeadInstances = async () => {
+    for (const id of await redis.smembers(instancesKey)) {
+      if (id === instanceId || await redis.exists(aliveKey(id))) {
+        continue;
+      }
+      const sockets = await redis.hgetall(socketsKey(id));
+      for (const [socketId, userId] of Object.entries(sockets)) {
+        await updateDevice(userId, socketId, '', false);
+      }
+      await redis.del(socketsKey(id));
+      await redis.srem(instancesKey, id);
+    }
+  };
+
+  const heartbeat = async () => {
+    try {
+      await redis.set(aliveKey(instanceId), '1', 'PX', INSTANCE_TTL_MS);
+      await redis.sadd(instancesKey, instanceId);
+      await removeDeadInstances();
+    } catch (error) {
+      console.error('Presence heartbeat error:', error);
+    }
+  };
+
+  heartbeat();
+  const timer = setInterval(heartbeat, HEARTBEAT_MS);
+  timer.unref();
+
+  return {
+    async addSocket(userId, socketId) {
+      localSockets.set(socketId, userId);
+      await redis.hset(socketsKey(instanceId), socketId, userId);
+      return updateDevice(userId, socketId, 'online', true);
+    },
+    async removeSocket(userId, socketId) {
+      localSockets.delete(socketId);
+      await redis.hdel(socketsKey(instanceId), socketId);
+      return updateDevice(userId, socketId, '', false);
+    },
+    async setSocketStatus(userId, socketId, status) {
+      return updateDevice(userId, socketId, status, false);
+    },
+    async getPresence(userId) {
+      return aggregate(await redis.hvals(userKey(userId)));
+    },
+    async getOnlineUserIds() {
+      return redis.smembers(onlineKey);
+    },
+    async close() {
+      clearInterval(timer);
+      for (const [socketId, userId] of localSockets) {
+        await updateDevice(userId, socketId, '', false);
+      }
+      localSockets.clear();
+      await redis.del(socketsKey(instanceId), aliveKey(instanceId));
+      await redis.srem(instancesKey, instanceId);
+      await redis.quit();
+    },
+  };
+};
+
+let store: PresenceStore | null = null;
+
+/**
+ * Get the presence store selected by REALTIME_DRIVER (memory or redis)
+ */
+export const getPresenceStore = (): PresenceStore => {
+  if (!store) {
+    store = process.env.REALTIME_DRIVER === 'redis'
+      ? createRedisPresenceStore()
+      : createMemoryPresenceStore();
+  }
+  return store;
+};
@@ -0,0 +1,160 @@
+import { createRedisClient } from '../realtime/redis.js';
+
+export interface Budget {
+  /** Points allowed per window; 0 disables the budget */
+  points: number;
+  windowMs: number;
+}
+
+export interface LimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Milliseconds until the window resets */
+  retryAfterMs: number;
+}
+
+/**
+ * Fixed-window counters shared by every server instance
+ */
+export interface RateLimitStore {
+  /** Add `amount` to a counter, starting a new window if none is active */
+  increment(key: string, amount: number, windowMs: number): Promise<{ count: number; resetAt: number }>;
+  /** Current counter value, or 0 when no window is active */
+  get(key: string): Promise<number>;
+}
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const counters = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop expired windows so idle keys do not accumulate
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, counter] of counters) {
+      if (counter.resetAt <= now) {
+        counters.delete(key);
+      }
+    }
+  }, 60 * 1000).unref();
+
+  return {
+    async increment(key, amount, windowMs) {
+      const now = Date.now();
+      let counter = counters.get(key);
+      if (!counter || counter.resetAt <= now) {
+        counter = { count: 0, resetAt: now + windowMs };
+        counters.set(key, counter);
+      }
+      counter.count += amount;
+      return { ...counter };
+    },
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.resetAt > Date.now() ? counter.count : 0;
+    },
+  };
+};
+
+// INCRBY and set the expiry only when the key is new; returns count and TTL
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCRBY', KEYS[1], ARGV[1])
+if redis.call('PTTL', KEYS[1]) < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return {count, redis.call('PTTL', KEYS[1])}
+`;
+
+export const createRedisRateLimitStore = (url?: string): RateLimitStore => {
+  const redis = createRedisClient(url);
+  const redisKey = (key: string) => `ratelimit:${key}`;
+
+  return {
+    async increment(key, amount, windowMs) {
+      const [count, ttl] = await redis.eval(
+        INCREMENT_SCRIPT,
+        1,
+        redisKey(key),
+        amount,
+        windowMs
+      ) as [number, number];
+      return { count, resetAt: Date.now() + Math.max(ttl, 0) };
+    },
+    async get(key) {
+      return Number(await redis.get(redisKey(key))) || 0;
+    },
+  };
+};
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Get the counter store selected by REALTIME_DRIVER (memory or redis)
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store = process.env.REALTIME_DRIVER === 'redis'
+      ? createRedisRateLimitStore()
+      : createMemoryRateLimitStore();
+  }
+  return store;
+};
+
+/**
+ * Parse a "points/seconds" budget such as "30/60", falling back to the default
+ */
+const readBudget = (name: string, fallback: string): Budget => {
+  const parse = (value: string) => {
+    const [points, seconds] = value.split('/').map(Number);
+    return Number.isFinite(points) && Number.isFinite(seconds) && seconds > 0
+      ? { points, windowMs: seconds * 1000 }
+      : null;
+  };
+
+  const budget = parse(process.env[name] || fallback);
+  if (!budget) {
+    console.warn(`⚠️  Invalid ${name}, expected "points/seconds"; using ${fallback}`);
+    return parse(fallback)!;
+  }
+  return budget;
+};
+
+/**
+ * Named budgets, configurable per deployment as RATE_LIMIT_<NAME>="points/seconds"
+ */
+export const budgets = {
+  // Every /api request, per IP
+  ip: readBudget('RATE_LIMIT_IP', '600/60'),
+  // AI generations, per user (each one costs real money)
+  ai: readBudget('RATE_LIMIT_AI', '10/60'),
+  upload: readBudget('RATE_LIMIT_UPLOAD', '30/60'),
+  search: readBudget('RATE_LIMIT_SEARCH', '60/60'),
+  // Transcript and account exports read whole conversations
+  export: readBudget('RATE_LIMIT_EXPORT', '10/3600'),
+  // Socket.IO events, per user
+  socketMessage: readBudget('RATE_LIMIT_SOCKET_MESSAGE', '30/10'),
+  socketTyping: readBudget('RATE_LIMIT_SOCKET_TYPING', '30/10'),
+  socketDefault: readBudget('RATE_LIMIT_SOCKET_DEFAULT', '120/10'),
+};
+
+export type BudgetName = keyof typeof budgets;
+
+/**
+ * Spend `cost` points of a budget for `key` (e.g. "user:<id>" or "ip:<addr>")
+ */
+export const consume = async (budgetName: BudgetName, key: string, cost = 1): Promise<LimitResult> => {
+  const budget = budgets[budgetName];
+  if (budget.points <= 0) {
+    return { allowed: true, remaining: Infinity, retryAfterMs: 0 };
+  }
+
+  const { count, resetAt } = await getRateLimitStore().increment(
+    `${budgetName}:${key}`,
+    cost,
+    budget.windowMs
+  );
+
+  return {
+    allowed: count <= budget.points,
+    remaining: Math.max(budget.points - count, 0),
+    retryAfterMs: Math.max(resetAt - Date.now(), 0),
+  };
+};
@@ -0,0 +1,153 @@
+import { PrismaClient } from '@prisma/client';
+import { findMembership, getMemberIds } from './membership.js';
+import { emitToSession } from '../socketInstance.js';
+
+const prisma = new PrismaClient();
+
+// Distinct emoji one user may put on a single message
+const MAX_REACTIONS_PER_USER = 20;
+
+// Emoji characters, including skin tones, ZWJ sequences and flags
+const EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator}|\p{Emoji_Component}|\u200D|\uFE0F)+$/u;
+const PICTOGRAPH_PATTERN = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+
+/**
+ * Reactions on one message grouped by emoji, in the order each emoji was first used
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+export class ReactionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ReactionError';
+  }
+}
+
+/**
+ * Whether a string is made of emoji only (digits and other emoji components
+ * on their own do not count)
+ */
+export const isValidEmoji = (emoji: string) =>
+  emoji.length <= 32 && EMOJI_PATTERN.test(emoji) && PICTOGRAPH_PATTERN.test(emoji);
+
+/**
+ * Load the reaction summaries for a set of messages, keyed by message id
+ */
+export const getReactionSummaries = async (messageIds: string[]) => {
+  const summaries = new Map<string, ReactionSummary[]>();
+  if (messageIds.length === 0) {
+    return summaries;
+  }
+
+  const reactions = await prisma.reaction.findMany({
+    where: { messageId: { in: messageIds } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  for (const reaction of reactions) {
+    const list = summaries.get(reaction.messageId) ?? [];
+    let summary = list.find((entry) => entry.emoji === reaction.emoji);
+    if (!summary) {
+      summary = { emoji: reaction.emoji, count: 0, userIds: [] };
+      list.push(summary);
+    }
+    summary.count += 1;
+    summary.userIds.push(reaction.userId);
+    summaries.set(reaction.messageId, list);
+  }
+
+  return summaries;
+};
+
+/**
+ * Add a `reactions` summary to each message
+ */
+export const withReactions = async <T extends { id: string }>(messages: T[]) => {
+  const summaries = await getReactionSummaries(messages.map((message) => message.id));
+  return messages.map((message) => ({ ...message, reactions: summaries.get(message.id) ?? [] }));
+};
+
+/**
+ * Load a message the user may react to
+ */
+const findReactableMessage = async (userId: string, messageId: string) => {
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, hiddenBy: { none: { userId } } },
+  });
+  if (!message || !(await findMembership(message.chatSessionId, userId))) {
+    throw new ReactionError('Message not found', 404);
+  }
+  if (message.deletedAt) {
+    throw new ReactionError('Deleted messages cannot be reacted to', 400);
+  }
+  return message;
+};
+
+const broadcastReaction = async (
+  event: 'reaction-added' | 'reaction-removed',
+  chatSessionId: string,
+  messageId: string,
+  userId: string,
+  emoji: string
+) => {
+  const summaries = await getReactionSummaries([messageId]);
+  const payload = {
+    messageId,
+    chatSessionId,
+    userId,
+    emoji,
+    reactions: summaries.get(messageId) ?? [],
+  };
+
+  emitToSession(chatSessionId, await getMemberIds(chatSessionId), event, payload);
+  return payload;
+};
+
+/**
+ * React to a message. Reacting twice with the same emoji is a no-op.
+ */
+export const addReaction = async (userId: string, messageId: string, emoji: string) => {
+  if (!isValidEmoji(emoji)) {
+    throw new ReactionError('Reaction must be an emoji', 400);
+  }
+
+  const message = await findReactableMessage(userId, messageId);
+
+  const existing = await prisma.reaction.findUnique({
+    where: { messageId_userId_emoji: { messageId, userId, emoji } },
+  });
+  if (!existing) {
+    const count = await prisma.reaction.count({ where: { messageId, userId } });
+    if (count >= MAX_REACTIONS_PER_USER) {
+      throw new ReactionError('Too many reactions on this message', 400);
+    }
+
+    await prisma.reaction.upsert({
+      where: { messageId_userId_emoji: { messageId, userId, emoji } },
+      create: { messageId, userId, emoji },
+      update: {},
+    });
+  }
+
+  return broadcastReaction('reaction-added', message.chatSessionId, messageId, userId, emoji);
+};
+
+/**
+ * Remove the user's reaction with the given emoji, if any
+ */
+export const removeReaction = async (userId: string, messageId: string, emoji: string) => {
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, hiddenBy: { none: { userId } } },
+  });
+  if (!message || !(await findMembership(message.chatSessionId, userId))) {
+    throw new ReactionError('Message not found', 404);
+  }
+
+  await prisma.reaction.deleteMany({ where: { messageId, userId, emoji } });
+
+  return broadcastReaction('reaction-removed', message.chatSessionId, messageId, userId, emoji);
+};
@@ -0,0 +1,126 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { postBotMessage } from './messages.js';
+import { AI_USER_ID } from '../ai/config.js';
+
+const prisma = new PrismaClient();
+
+// Pending reminders a user may have at once
+const MAX_PENDING_REMINDERS = 50;
+// Furthest ahead a reminder may be set
+const MAX_REMINDER_DAYS = 365;
+// How often due reminders are looked for
+const REMINDER_POLL_SECONDS = 30;
+// Reminders delivered per poll
+const DELIVERY_BATCH_SIZE = 100;
+
+export class ReminderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ReminderError';
+  }
+}
+
+export const reminderSelect = {
+  id: true,
+  chatSessionId: true,
+  text: true,
+  remindAt: true,
+  deliveredAt: true,
+  createdAt: true,
+} satisfies Prisma.ReminderSelect;
+
+/**
+ * Schedule a reminder, delivered as a message from the assistant in the given conversation
+ */
+export const createReminder = async (userId: string, chatSessionId: string, text: string, remindAt: Date) => {
+  const now = Date.now();
+  if (remindAt.getTime() <= now) {
+    throw new ReminderError('Reminders must be set in the future', 400);
+  }
+  if (remindAt.getTime() > now + MAX_REMINDER_DAYS * 24 * 60 * 60 * 1000) {
+    throw new ReminderError(`Reminders can be set at most ${MAX_REMINDER_DAYS} days ahead`, 400);
+  }
+
+  const pending = await prisma.reminder.count({ where: { userId, deliveredAt: null } });
+  if (pending >= MAX_PENDING_REMINDERS) {
+    throw new ReminderError(`You can have at most ${MAX_PENDING_REMINDERS} pending reminders`, 400);
+  }
+
+  return prisma.reminder.create({
+    data: { userId, chatSessionId, text, remindAt },
+    select: reminderSelect,
+  });
+};
+
+/**
+ * The user's reminders that have not been delivered yet, soonest first
+ */
+export const listPendingReminders = (userId: string) =>
+  prisma.reminder.findMany({
+    where: { userId, deliveredAt: null },
+    select: reminderSelect,
+    orderBy: { remindAt: 'asc' },
+  });
+
+export const cancelReminder = async (userId: string, reminderId: string) => {
+  const { count } = await prisma.reminder.deleteMany({
+    where: { id: reminderId, userId, deliveredAt: null },
+  });
+  if (count === 0) {
+    throw new ReminderError('Reminder not found', 404);
+  }
+};
+
+/**
+ * Post every due reminder into its conversation and mark it delivered once
+ * posted; a reminder that fails is retried on the next poll. The post is keyed
+ * by the reminder id, so several instances can poll without double delivery.
+ */
+export const deliverDueReminders = async () => {
+  const due = await prisma.reminder.findMany({
+    where: { deliveredAt: null, remindAt: { lte: new Date() } },
+    include: { chatSession: { select: { botId: true } } },
+    orderBy: { remindAt: 'asc' },
+    take: DELIVERY_BATCH_SIZE,
+  });
+
+  for (const reminder of due) {
+    try {
+      await postBotMessage(reminder.chatSession.botId ?? AI_USER_ID, {
+        chatSessionId: reminder.chatSessionId,
+        content: `⏰ Reminder: ${reminder.text}`,
+        receiverId: reminder.userId,
+        clientMessageId: `reminder:${reminder.id}`,
+      }).catch((error) => {
+        // Another instance posted it first; it only needs marking
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+      });
+
+      await prisma.reminder.updateMany({
+        where: { id: reminder.id, deliveredAt: null },
+        data: { deliveredAt: new Date() },
+      });
+    } catch (error) {
+      console.error('Reminder delivery error:', error);
+    }
+  }
+
+  return due.length;
+};
+
+/**
+ * Poll for due reminders. Returns a function that stops the job.
+ */
+export const startReminderJob = () => {
+  const run = () => {
+    deliverDueReminders().catch((error) => console.error('Reminder job error:', error));
+  };
+
+  run();
+  const timer = setInterval(run, REMINDER_POLL_SECONDS * 1000);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
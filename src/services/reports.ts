@@ -0,0 +1,120 @@
+import { PrismaClient, Prisma, ReportStatus } from '@prisma/client';
+import { findMembership } from './membership.js';
+import { removeMessage } from './messages.js';
+
+const prisma = new PrismaClient();
+
+export class ReportError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ReportError';
+  }
+}
+
+export const reportSelect = {
+  id: true,
+  reason: true,
+  status: true,
+  reviewedAt: true,
+  createdAt: true,
+  reporter: { select: { id: true, name: true } },
+  reviewedBy: { select: { id: true, name: true } },
+  message: {
+    select: {
+      id: true,
+      chatSessionId: true,
+      content: true,
+      createdAt: true,
+      editedAt: true,
+      deletedAt: true,
+      sender: { select: { id: true, name: true, isBot: true } },
+    },
+  },
+} satisfies Prisma.ReportSelect;
+
+/**
+ * Report a message the user can see to the admins. Each user reports a
+ * message at most once; their own messages cannot be reported.
+ */
+export const reportMessage = async (userId: string, messageId: string, reason: string) => {
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, deletedAt: null, hiddenBy: { none: { userId } } },
+    select: { senderId: true, chatSessionId: true },
+  });
+  if (!message || !(await findMembership(message.chatSessionId, userId))) {
+    throw new ReportError('Message not found', 404);
+  }
+  if (message.senderId === userId) {
+    throw new ReportError('You cannot report your own message', 400);
+  }
+
+  try {
+    return await prisma.report.create({
+      data: { messageId, reporterId: userId, reason },
+      select: { id: true, reason: true, status: true, createdAt: true },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ReportError('You already reported this message', 409);
+    }
+    throw error;
+  }
+};
+
+/**
+ * The review queue: reports with the given status, oldest first so nothing waits forever
+ */
+export const listReports = (options: { status: ReportStatus; limit: number; offset: number }) =>
+  prisma.report.findMany({
+    where: { status: options.status },
+    select: reportSelect,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    skip: options.offset,
+    take: options.limit + 1,
+  });
+
+/**
+ * Close an open report. Removing the message deletes it for everyone and
+ * closes the other open reports about it as well.
+ */
+export const reviewReport = async (
+  adminId: string,
+  reportId: string,
+  decision: { status: Exclude<ReportStatus, 'OPEN'>; removeMessage: boolean }
+) => {
+  const report = await prisma.report.findUnique({
+    where: { id: reportId },
+    include: { message: { select: { id: true, chatSessionId: true, deletedAt: true } } },
+  });
+  if (!report) {
+    throw new ReportError('Report not found', 404);
+  }
+  if (report.status !== 'OPEN') {
+    throw new ReportError('Report was already reviewed', 409);
+  }
+  if (decision.removeMessage && decision.status !== 'ACTIONED') {
+    throw new ReportError('Removing the message requires status ACTIONED', 400);
+  }
+
+  const review = { status: decision.status, reviewedById: adminId, reviewedAt: new Date() };
+
+  // Only one admin can close an open report; whoever comes second gets 409
+  const { count } = await prisma.report.updateMany({
+    where: { id: reportId, status: 'OPEN' },
+    data: review,
+  });
+  if (count === 0) {
+    throw new ReportError('Report was already reviewed', 409);
+  }
+
+  if (decision.removeMessage) {
+    await removeMessage(report.message, adminId);
+    // Other open reports of the removed message are settled with it
+    await prisma.report.updateMany({
+      where: { messageId: report.messageId, status: 'OPEN' },
+      data: review,
+    });
+  }
+
+  return prisma.report.findUniqueOrThrow({ where: { id: reportId }, select: reportSelect });
+};
@@ -0,0 +1,80 @@
+import { PrismaClient } from '@prisma/client';
+import { getStorage } from './storage.js';
+
+const prisma = new PrismaClient();
+
+// Messages older than this many days are purged (0 keeps messages forever)
+const MESSAGE_RETENTION_DAYS = Number(process.env.MESSAGE_RETENTION_DAYS ?? 0);
+const RETENTION_INTERVAL_MINUTES = Number(process.env.RETENTION_INTERVAL_MINUTES ?? 60);
+
+// Messages deleted per query, so a large backlog never holds long locks
+const PURGE_BATCH_SIZE = 1000;
+
+/**
+ * Permanently delete messages created before the cutoff, with their
+ * attachments, edits, reactions and hidden markers. Replies to purged
+ * messages are kept and lose their parent reference.
+ * Returns the number of messages deleted.
+ */
+export const purgeMessagesBefore = async (cutoff: Date) => {
+  const storage = getStorage();
+  let purged = 0;
+
+  while (true) {
+    const batch = await prisma.message.findMany({
+      where: { createdAt: { lt: cutoff } },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: PURGE_BATCH_SIZE,
+    });
+    if (batch.length === 0) {
+      return purged;
+    }
+
+    const ids = batch.map((message) => message.id);
+    const attachments = await prisma.attachment.findMany({
+      where: { messageId: { in: ids } },
+      select: { storageKey: true, thumbnailKey: true },
+    });
+
+    const { count } = await prisma.message.deleteMany({ where: { id: { in: ids } } });
+    purged += count;
+
+    for (const attachment of attachments) {
+      for (const key of [attachment.storageKey, attachment.thumbnailKey]) {
+        if (key) {
+          storage.delete(key).catch((error) => console.error('Attachment cleanup error:', error));
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Run the retention purge on an interval when MESSAGE_RETENTION_DAYS is set.
+ * Every instance may run it; deleting already-purged rows is a no-op.
+ * Returns a function that stops the job.
+ */
+export const startRetentionJob = () => {
+  if (!(MESSAGE_RETENTION_DAYS > 0)) {
+    return () => {};
+  }
+
+  const run = async () => {
+    try {
+      const cutoff = new Date(Date.now() - MESSAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const purged = await purgeMessagesBefore(cutoff);
+      if (purged > 0) {
+        console.log(`🧹 Retention job purged ${purged} messages older than ${MESSAGE_RETENTION_DAYS} days`);
+      }
+    } catch (error) {
+      console.error('Retention job error:', error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, Math.max(RETENTION_INTERVAL_MINUTES, 1) * 60 * 1000);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
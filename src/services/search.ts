@@ -0,0 +1,110 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { messageInclude, presentMessages } from './messages.js';
+
+const prisma = new PrismaClient();
+
+// Inlined (not a bind parameter) so queries match the expression index in the
+// add_message_search migration
+const SEARCH_CONFIG = Prisma.raw(`'english'`);
+
+// Private-use characters mark highlights so user content can be HTML-escaped safely
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_END = '\uE001';
+
+export interface MessageSearchOptions {
+  query: string;
+  sessionId?: string;
+  senderId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Turn a ts_headline fragment into HTML with matches wrapped in <mark>
+ */
+const toHighlightedSnippet = (headline: string) =>
+  escapeHtml(headline)
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_END).join('</mark>');
+
+/**
+ * Full-text search over every message in sessions the user is a member of.
+ * Deleted messages and messages the user hid for themselves are excluded.
+ * Results are ranked by relevance, then recency.
+ */
+export const searchMessages = async (userId: string, options: MessageSearchOptions) => {
+  const filters: Prisma.Sql[] = [];
+  if (options.sessionId) {
+    filters.push(Prisma.sql`AND m."chatSessionId" = ${options.sessionId}`);
+  }
+  if (options.senderId) {
+    filters.push(Prisma.sql`AND m."senderId" = ${options.senderId}`);
+  }
+  if (options.from) {
+    filters.push(Prisma.sql`AND m."createdAt" >= ${options.from}`);
+  }
+  if (options.to) {
+    filters.push(Prisma.sql`AND m."createdAt" <= ${options.to}`);
+  }
+
+  const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MaxWords=20, MinWords=5`;
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; headline: string; rank: number }>>`
+    SELECT
+      m.id,
+      ts_headline(${SEARCH_CONFIG}, m.content, q, ${headlineOptions}) AS headline,
+      ts_rank(to_tsvector(${SEARCH_CONFIG}, m.content), q) AS rank
+    FROM messages m
+    JOIN chat_members cm
+      ON cm."chatSessionId" = m."chatSessionId" AND cm."userId" = ${userId}
+    CROSS JOIN websearch_to_tsquery(${SEARCH_CONFIG}, ${options.query}) q
+    WHERE to_tsvector(${SEARCH_CONFIG}, m.content) @@ q
+      AND m."deletedAt" IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM hidden_messages h
+        WHERE h."messageId" = m.id AND h."userId" = ${userId}
+      )
+      ${Prisma.join(filters, ' ')}
+    ORDER BY rank DESC, m."createdAt" DESC
+    LIMIT ${options.limit + 1}
+    OFFSET ${options.offset}
+  `;
+
+  const hasMore = rows.length > options.limit;
+  const page = rows.slice(0, options.limit);
+
+  const messages = await presentMessages(await prisma.message.findMany({
+    where: { id: { in: page.map((row) => row.id) } },
+    include: {
+      ...messageInclude,
+      chatSession: {
+        select: { id: true, isGroup: true, name: true },
+      },
+    },
+  }));
+  const messagesById = new Map(messages.map((message) => [message.id, message]));
+
+  const results = page
+    .filter((row) => messagesById.has(row.id))
+    .map((row) => ({
+      message: messagesById.get(row.id)!,
+      snippet: toHighlightedSnippet(row.headline),
+      rank: Number(row.rank),
+    }));
+
+  return {
+    results,
+    hasMore,
+    nextOffset: hasMore ? options.offset + options.limit : null,
+  };
+};
@@ -0,0 +1,119 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { emitToUsers } from '../socketInstance.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * A member's personal settings for a session
+ */
+export const settingsSelect = {
+  chatSessionId: true,
+  muted: true,
+  mutedUntil: true,
+  pinnedAt: true,
+  archivedAt: true,
+  nickname: true,
+} satisfies Prisma.ChatMemberSelect;
+
+type MemberSettings = Prisma.ChatMemberGetPayload<{ select: typeof settingsSelect }>;
+
+export interface SessionSettingsUpdate {
+  pinned?: boolean;
+  archived?: boolean;
+  muted?: boolean;
+  mutedUntil?: Date | null;
+  nickname?: string | null;
+}
+
+/**
+ * Whether the member currently gets no notifications for the session
+ */
+export const isMuted = (settings: Pick<MemberSettings, 'muted' | 'mutedUntil'>, now = new Date()) =>
+  settings.muted || (settings.mutedUntil !== null && settings.mutedUntil > now);
+
+/**
+ * Where-clause matching members who should be notified about new messages
+ */
+export const notMutedWhere = (now = new Date()): Prisma.ChatMemberWhereInput => ({
+  muted: false,
+  OR: [{ mutedUntil: null }, { mutedUntil: { lte: now } }],
+});
+
+/**
+ * Settings as returned to clients, with flags derived from the timestamps
+ */
+export const presentSettings = (settings: MemberSettings) => ({
+  sessionId: settings.chatSessionId,
+  pinned: settings.pinnedAt !== null,
+  pinnedAt: settings.pinnedAt,
+  archived: settings.archivedAt !== null,
+  archivedAt: settings.archivedAt,
+  muted: isMuted(settings),
+  mutedUntil: settings.muted ? null : settings.mutedUntil,
+  nickname: settings.nickname,
+});
+
+/**
+ * Apply a settings change to a membership and sync the user's other devices
+ */
+export const updateSessionSettings = async (
+  memberId: string,
+  userId: string,
+  update: SessionSettingsUpdate
+) => {
+  const data: Prisma.ChatMemberUpdateInput = {};
+  if (update.pinned !== undefined) {
+    data.pinnedAt = update.pinned ? new Date() : null;
+  }
+  if (update.archived !== undefined) {
+    data.archivedAt = update.archived ? new Date() : null;
+  }
+  // Muting without an end time mutes until the user unmutes
+  if (update.mutedUntil !== undefined) {
+    data.muted = false;
+    data.mutedUntil = update.mutedUntil;
+  }
+  if (update.muted !== undefined) {
+    data.muted = update.muted;
+    data.mutedUntil = null;
+  }
+  if (update.nickname !== undefined) {
+    data.nickname = update.nickname;
+  }
+
+  const settings = presentSettings(await prisma.chatMember.update({
+    where: { id: memberId },
+    data,
+    select: settingsSelect,
+  }));
+
+  emitToUsers([userId], 'session-settings-updated', settings);
+
+  return settings;
+};
+
+/**
+ * Bring a session back out of the archive for members who get a new message in it
+ */
+export const unarchiveSession = async (sessionId: string, userIds: string[]) => {
+  const archived = await prisma.chatMember.findMany({
+    where: { chatSessionId: sessionId, userId: { in: userIds }, archivedAt: { not: null } },
+    select: { id: true, userId: true },
+  });
+  if (archived.length === 0) {
+    return;
+  }
+
+  await prisma.chatMember.updateMany({
+    where: { id: { in: archived.map((member) => member.id) } },
+    data: { archivedAt: null },
+  });
+
+  for (const member of archived) {
+    const settings = await prisma.chatMember.findUniqueOrThrow({
+      where: { id: member.id },
+      select: settingsSelect,
+    });
+    emitToUsers([member.userId], 'session-settings-updated', presentSettings(settings));
+  }
+};
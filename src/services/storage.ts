@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+
+/**
+ * Where attachment bytes live. Keys are relative, slash-separated paths.
+ */
+export interface StorageDriver {
+  name: 'local' | 's3';
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Store files on local disk under `rootDir` (UPLOAD_DIR, default ./uploads)
+ */
+export const createLocalStorage = (rootDir: string): StorageDriver => {
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(rootDir, key);
+    // Never allow keys to escape the upload directory
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, data);
+    },
+    async get(key) {
+      const filePath = resolveKey(key);
+      await fs.promises.access(filePath);
+      return fs.createReadStream(filePath);
+    },
+    async delete(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+  };
+};
+
+/**
+ * Store files in an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2, ...)
+ */
+export const createS3Storage = (options: {
+  bucket: string;
+  region?: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+}): StorageDriver => {
+  const client = new S3Client({
+    region: options.region || 'us-east-1',
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    credentials: options.accessKeyId && options.secretAccessKey
+      ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+      : undefined,
+  });
+
+  return {
+    name: 's3',
+    async put(key, data, mimeType) {
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+        Body: data,
+        ContentType: mimeType,
+      }));
+    },
+    async get(key) {
+      const result = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+      return result.Body as Readable;
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    },
+  };
+};
+
+let storage: StorageDriver | null = null;
+
+/**
+ * Get the storage driver selected by STORAGE_DRIVER (local or s3)
+ */
+export const getStorage = (): StorageDriver => {
+  if (!storage) {
+    if (process.env.STORAGE_DRIVER === 's3') {
+      if (!process.env.S3_BUCKET) {
+        console.error('❌ S3_BUCKET is required when STORAGE_DRIVER=s3');
+      }
+      storage = createS3Storage({
+        bucket: process.env.S3_BUCKET || '',
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      });
+    } else {
+      storage = createLocalStorage(path.resolve(process.cwd(), process.env.UPLOAD_DIR || 'uploads'));
+    }
+  }
+  return storage;
+};
@@ -0,0 +1,74 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { emitToUsers } from '../socketInstance.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Count unread messages per session for a user, optionally limited to some
+ * sessions. Sessions without unread messages are left out.
+ *
+ * 1:1 messages are unread for their receiver until `readAt` is set (assistant
+ * replies to a mention are addressed to the other participant); group messages are
+ * unread when newer than the member's read marker (or join time). Messages
+ * the user sent, deleted for everyone or hid for themselves never count.
+ */
+export const getUnreadCounts = async (userId: string, sessionIds?: string[]) => {
+  if (sessionIds && sessionIds.length === 0) {
+    return new Map<string, number>();
+  }
+
+  const sessionFilter = sessionIds
+    ? Prisma.sql`AND m."chatSessionId" IN (${Prisma.join(sessionIds)})`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<Array<{ sessionId: string; count: number }>>`
+    SELECT m."chatSessionId" AS "sessionId", COUNT(*)::int AS count
+    FROM messages m
+    JOIN chat_members cm
+      ON cm."chatSessionId" = m."chatSessionId" AND cm."userId" = ${userId}
+    JOIN chat_sessions s ON s.id = m."chatSessionId"
+    WHERE m."senderId" <> ${userId}
+      AND m."deletedAt" IS NULL
+      AND CASE
+        WHEN s."isGroup" THEN m."createdAt" > COALESCE(cm."lastReadAt", cm."joinedAt")
+        ELSE m."readAt" IS NULL AND m."receiverId" = ${userId}
+      END
+      AND NOT EXISTS (
+        SELECT 1 FROM hidden_messages h
+        WHERE h."messageId" = m.id AND h."userId" = ${userId}
+      )
+      ${sessionFilter}
+    GROUP BY m."chatSessionId"
+  `;
+
+  return new Map(rows.map((row) => [row.sessionId, Number(row.count)]));
+};
+
+/**
+ * Total unread messages for a user across all sessions, with the per-session breakdown
+ */
+export const getUnreadSummary = async (userId: string) => {
+  const counts = await getUnreadCounts(userId);
+
+  let total = 0;
+  for (const count of counts.values()) {
+    total += count;
+  }
+
+  return { total, sessions: Object.fromEntries(counts) };
+};
+
+/**
+ * Push a session's unread count and the new total to each user's devices as
+ * `unread-counts`. Runs in the background; failures are only logged.
+ */
+export const pushUnreadCounts = (userIds: string[], sessionId: string) => {
+  Promise.all(userIds.map(async (userId) => {
+    const { total, sessions } = await getUnreadSummary(userId);
+    emitToUsers([userId], 'unread-counts', {
+      sessionId,
+      unreadCount: sessions[sessionId] ?? 0,
+      total,
+    });
+  })).catch((error) => console.error('Unread count error:', error));
+};
@@ -0,0 +1,91 @@
+import { PrismaClient, EmailVisibility, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Profile fields other users may see. `email` and `emailVisibility` are used
+ * to decide whether the email is shown and are trimmed by `presentUser`.
+ */
+export const profileSelect = {
+  id: true,
+  email: true,
+  emailVisibility: true,
+  name: true,
+  picture: true,
+  statusText: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+export type Profile = Prisma.UserGetPayload<{ select: typeof profileSelect }>;
+
+/**
+ * Ids of the user's contacts: everyone they share a chat session with
+ */
+export const getContactIds = async (userId: string): Promise<string[]> => {
+  const members = await prisma.chatMember.findMany({
+    where: {
+      userId: { not: userId },
+      chatSession: { members: { some: { userId } } },
+    },
+    select: { userId: true },
+    distinct: ['userId'],
+  });
+  return members.map((member) => member.userId);
+};
+
+/**
+ * Ids of the users who have written to the given user in a conversation they
+ * share. With CONTACTS visibility a user's email is shown only to the people
+ * they wrote to, so opening a conversation with someone does not reveal it.
+ */
+export const getCorrespondentIds = async (userId: string): Promise<string[]> => {
+  const messages = await prisma.message.findMany({
+    where: {
+      senderId: { not: userId },
+      chatSession: { members: { some: { userId } } },
+    },
+    select: { senderId: true },
+    distinct: ['senderId'],
+  });
+  return messages.map((message) => message.senderId);
+};
+
+/**
+ * Ids of the users the given user has written to: the other members of the
+ * conversations they sent messages in
+ */
+export const getReaderIds = async (userId: string): Promise<string[]> => {
+  const members = await prisma.chatMember.findMany({
+    where: {
+      userId: { not: userId },
+      chatSession: { messages: { some: { senderId: userId } } },
+    },
+    select: { userId: true },
+    distinct: ['userId'],
+  });
+  return members.map((member) => member.userId);
+};
+
+/**
+ * Where-clause for users whose email the viewer may see
+ */
+export const emailVisibleTo = (viewerId: string): Prisma.UserWhereInput => ({
+  OR: [
+    { id: viewerId },
+    { emailVisibility: EmailVisibility.EVERYONE },
+    { sentMessages: { some: { chatSession: { members: { some: { userId: viewerId } } } } } },
+  ],
+});
+
+/**
+ * Shape a profile for a viewer, hiding the email unless the profile owner
+ * allows it. `correspondentIds` are the viewer's, from `getCorrespondentIds`.
+ */
+export const presentUser = (user: Profile, viewerId: string, correspondentIds: string[]) => {
+  const { email, emailVisibility, ...profile } = user;
+  const emailVisible = user.id === viewerId ||
+    emailVisibility === EmailVisibility.EVERYONE ||
+    correspondentIds.includes(user.id);
+
+  return { ...profile, email: emailVisible ? email : null };
+};
@@ -1,17 +1,121 @@
 import { Server, Socket } from 'socket.io';
 import { auth } from './auth.js';
 import { PrismaClient } from '@prisma/client';
+import { findMembership, getMemberIds } from './services/membership.js';
+import {
+  sendMessage,
+  markDelivered,
+  editMessage,
+  deleteMessage,
+  MessageActionError,
+  DeleteScope,
+} from './services/messages.js';
+import { cancelStream } from './ai/streams.js';
+import { mentionsAssistant, replyToMention } from './ai/chatAssistant.js';
+import { AttachmentError } from './services/attachments.js';
+import { addReaction, removeReaction, ReactionError } from './services/reactions.js';
+import { getBlockedUserIds } from './services/blocks.js';
+import { pushUnreadCounts } from './services/unread.js';
+import { getPresenceStore, PresenceChange } from './services/presence.js';
+import { emitToUsers, userRoom } from './socketInstance.js';
+import { consume, BudgetName } from './services/rateLimit.js';
+import { z } from 'zod';
 
 const prisma = new PrismaClient();
 
-interface SocketUser {
-  userId: string;
-  socketId: string;
-}
+// Events with their own budget; everything else uses socketDefault
+const socketEventBudgets: Record<string, BudgetName> = {
+  'send-message': 'socketMessage',
+  'edit-message': 'socketMessage',
+  'delete-message': 'socketMessage',
+  'add-reaction': 'socketMessage',
+  'remove-reaction': 'socketMessage',
+  typing: 'socketTyping',
+};
+
+const sessionIdSchema = z.string().min(1);
+
+const sendMessageSchema = z.object({
+  chatSessionId: z.string().min(1),
+  content: z.string().default(''),
+  attachmentIds: z.array(z.string()).default([]),
+  clientMessageId: z.string().min(1).max(100).optional(),
+  parentId: z.string().min(1).optional(),
+});
+
+const typingSchema = z.object({
+  sessionId: z.string().min(1),
+  isTyping: z.boolean(),
+});
 
-const onlineUsers = new Map<string, string>(); // userId -> socketId
+const reactionSchema = z.object({
+  messageId: z.string().min(1),
+  emoji: z.string().trim().min(1),
+});
+
+const markDeliveredSchema = z.object({
+  sessionId: z.string().min(1),
+  messageIds: z.array(z.string()).min(1),
+});
+
+const markReadSchema = z.object({
+  sessionId: z.string().min(1),
+  messageIds: z.array(z.string()),
+});
+
+type SocketErrorCode =
+  | 'INVALID_PAYLOAD'
+  | 'NOT_A_MEMBER'
+  | 'NOT_IN_ROOM'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONTENT_BLOCKED'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR';
+
+const statusToCode = (status: number): SocketErrorCode => {
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 422) return 'CONTENT_BLOCKED';
+  if (status >= 500) return 'INTERNAL_ERROR';
+  return 'INVALID_PAYLOAD';
+};
+
+/**
+ * Report a rejected event to the client. Message events keep using
+ * `message-error`; everything else goes to `socket-error`. The payload always
+ * carries the event name, a machine-readable code and a human-readable error.
+ */
+const emitSocketError = (
+  socket: Socket,
+  event: string,
+  code: SocketErrorCode,
+  error: string,
+  extra: Record<string, unknown> = {}
+) => {
+  const channel = event.endsWith('-message') ? 'message-error' : 'socket-error';
+  socket.emit(channel, { event, code, error, ...extra });
+};
 
 export const initializeSocket = (io: Server) => {
+  const presence = getPresenceStore();
+
+  // Tell everyone else when a user's overall presence changes, except users
+  // on either side of a block
+  const broadcastPresence = async (socket: Socket, userId: string, change: PresenceChange) => {
+    if (change.previous === change.current) {
+      return;
+    }
+    const audience = socket.broadcast.except((await getBlockedUserIds(userId)).map(userRoom));
+    if (change.previous === 'offline') {
+      audience.emit('user-online', { userId });
+    }
+    if (change.current === 'offline') {
+      audience.emit('user-offline', { userId, lastSeenAt: new Date() });
+    }
+    audience.emit('presence-changed', { userId, status: change.current });
+  };
+
   io.use(async (socket, next) => {
     try {
       // Better Auth uses cookies, but we can also accept token in handshake for Socket.IO
@@ -40,20 +144,68 @@ export const initializeSocket = (io: Server) => {
 
   io.on('connection', (socket: Socket & { userId?: string }) => {
     const userId = socket.userId!;
-    onlineUsers.set(userId, socket.id);
+
+    // Every device of a user shares a room, so emits reach them on any instance
+    socket.join(userRoom(userId));
 
     console.log(`User ${userId} connected`);
 
-    // Notify others that this user is online
-    socket.broadcast.emit('user-online', { userId });
+    // Presence is updated in the background so handlers below register immediately
+    const registered = presence.addSocket(userId, socket.id)
+      .then(async (change) => {
+        // Notify others that this user is online (only for their first device)
+        await broadcastPresence(socket, userId, change);
 
-    // Send current online users to the newly connected user
-    socket.emit('online-users', Array.from(onlineUsers.keys()));
+        // Send current online users to the newly connected user
+        const blockedIds = await getBlockedUserIds(userId);
+        const onlineUserIds = await presence.getOnlineUserIds();
+        socket.emit('online-users', onlineUserIds.filter((id) => !blockedIds.includes(id)));
+      })
+      .catch((error) => console.error('Error updating presence:', error));
+
+    // Rate limit every incoming event; limited events are dropped, and an ack
+    // callback passed with one is answered so the client does not wait forever
+    socket.use(async (packet, next) => {
+      const [event] = packet;
+      try {
+        const result = await consume(socketEventBudgets[event] ?? 'socketDefault', `user:${userId}`);
+        if (!result.allowed) {
+          const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+          socket.emit('rate-limited', { event, retryAfter });
 
-    // Handle joining a chat room
-    socket.on('join-chat', async (sessionId: string) => {
-      socket.join(`chat:${sessionId}`);
-      console.log(`User ${userId} joined chat ${sessionId}`);
+          const ack = packet[packet.length - 1];
+          if (packet.length > 1 && typeof ack === 'function') {
+            ack({ ok: false, event, code: 'RATE_LIMITED', error: 'Too many requests', retryAfter });
+          }
+          return;
+        }
+      } catch (error) {
+        console.error('Rate limit error:', error);
+      }
+      next();
+    });
+
+    // Handle joining a chat room (members only, so outsiders cannot read its traffic)
+    socket.on('join-chat', async (payload: unknown) => {
+      const parsed = sessionIdSchema.safeParse(payload);
+      if (!parsed.success) {
+        emitSocketError(socket, 'join-chat', 'INVALID_PAYLOAD', 'Session ID required');
+        return;
+      }
+      const sessionId = parsed.data;
+
+      try {
+        if (!(await findMembership(sessionId, userId))) {
+          emitSocketError(socket, 'join-chat', 'NOT_A_MEMBER', 'Session not found', { sessionId });
+          return;
+        }
+
+        socket.join(`chat:${sessionId}`);
+        console.log(`User ${userId} joined chat ${sessionId}`);
+      } catch (error) {
+        console.error('Error joining chat:', error);
+        emitSocketError(socket, 'join-chat', 'INTERNAL_ERROR', 'Failed to join chat', { sessionId });
+      }
     });
 
     // Handle leaving a chat room
@@ -62,118 +214,263 @@ export const initializeSocket = (io: Server) => {
       console.log(`User ${userId} left chat ${sessionId}`);
     });
 
-    // Handle sending a message
-    socket.on('send-message', async (data: {
-      content: string;
-      receiverId: string;
-      chatSessionId: string;
-    }) => {
+    // Handle sending a message. The receiver is always derived from the
+    // session; any client-supplied receiverId is ignored. When the client
+    // passes an ack callback it gets `{ ok: true, message, duplicate }` or
+    // `{ ok: false, event, code, error }` instead of a message-error event.
+    socket.on('send-message', async (payload: unknown, ack?: unknown) => {
+      const reply = typeof ack === 'function' ? ack : null;
+      const reject = (code: SocketErrorCode, error: string) => {
+        if (reply) {
+          reply({ ok: false, event: 'send-message', code, error });
+        } else {
+          emitSocketError(socket, 'send-message', code, error);
+        }
+      };
+
+      const parsed = sendMessageSchema.safeParse(payload);
+      if (!parsed.success) {
+        reject('INVALID_PAYLOAD', 'Invalid message');
+        return;
+      }
+
       try {
-        const { content, receiverId, chatSessionId } = data;
+        const { message, duplicate } = await sendMessage(userId, parsed.data);
+        reply?.({ ok: true, message, duplicate });
 
-        // Save message to database
-        const message = await prisma.message.create({
-          data: {
-            content,
-            senderId: userId,
-            receiverId,
-            chatSessionId,
-          },
-          include: {
-            sender: {
-              select: { id: true, name: true, picture: true },
-            },
-            receiver: {
-              select: { id: true, name: true, picture: true },
-            },
-          },
-        });
+        if (!duplicate && mentionsAssistant(message.content)) {
+          replyToMention(userId, message)
+            .catch((error) => console.error('AI mention error:', error));
+        }
+      } catch (error) {
+        if (error instanceof MessageActionError || error instanceof AttachmentError) {
+          reject(error.status === 404 ? 'NOT_A_MEMBER' : statusToCode(error.status), error.message);
+          return;
+        }
+        console.error('Error sending message:', error);
+        reject('INTERNAL_ERROR', 'Failed to send message');
+      }
+    });
 
-        // Update session updatedAt
-        await prisma.chatSession.update({
-          where: { id: chatSessionId },
-          data: { updatedAt: new Date() },
-        });
+    // Handle delivery receipts from a device that received new messages
+    socket.on('mark-delivered', async (payload: unknown) => {
+      const parsed = markDeliveredSchema.safeParse(payload);
+      if (!parsed.success) {
+        emitSocketError(socket, 'mark-delivered', 'INVALID_PAYLOAD', 'Invalid delivery receipt');
+        return;
+      }
+      const { sessionId, messageIds } = parsed.data;
 
-        // Add readAt field (null for new messages)
-        const messageWithRead = { ...message, readAt: null };
+      try {
+        await markDelivered(userId, sessionId, messageIds);
+      } catch (error) {
+        if (error instanceof MessageActionError) {
+          emitSocketError(socket, 'mark-delivered', 'NOT_A_MEMBER', error.message, { sessionId });
+          return;
+        }
+        console.error('Error marking messages as delivered:', error);
+        emitSocketError(socket, 'mark-delivered', 'INTERNAL_ERROR', 'Failed to mark messages as delivered');
+      }
+    });
 
-        // Emit to all users in the chat room
-        io.to(`chat:${chatSessionId}`).emit('new-message', messageWithRead);
+    // Handle editing a message
+    socket.on('edit-message', async (data: { messageId: string; content: string }) => {
+      try {
+        if (!data?.messageId || !data.content || !data.content.trim()) {
+          emitSocketError(socket, 'edit-message', 'INVALID_PAYLOAD', 'Message content is required');
+          return;
+        }
+        await editMessage(userId, data.messageId, data.content);
+      } catch (error) {
+        if (error instanceof MessageActionError) {
+          emitSocketError(socket, 'edit-message', statusToCode(error.status), error.message, {
+            messageId: data?.messageId,
+          });
+          return;
+        }
+        console.error('Error editing message:', error);
+        emitSocketError(socket, 'edit-message', 'INTERNAL_ERROR', 'Failed to edit message');
+      }
+    });
 
-        // Also emit directly to receiver to ensure they get it (frontend handles deduplication)
-        const receiverSocketId = onlineUsers.get(receiverId);
-        if (receiverSocketId) {
-          io.to(receiverSocketId).emit('new-message', messageWithRead);
+    // Handle deleting a message (for me or for everyone)
+    socket.on('delete-message', async (data: { messageId: string; scope?: DeleteScope }) => {
+      try {
+        if (!data?.messageId) {
+          emitSocketError(socket, 'delete-message', 'INVALID_PAYLOAD', 'Message ID required');
+          return;
         }
+        const scope = data.scope === 'everyone' ? 'everyone' : 'me';
+        await deleteMessage(userId, data.messageId, scope);
       } catch (error) {
-        console.error('Error sending message:', error);
-        socket.emit('message-error', { error: 'Failed to send message' });
+        if (error instanceof MessageActionError) {
+          emitSocketError(socket, 'delete-message', statusToCode(error.status), error.message, {
+            messageId: data?.messageId,
+          });
+          return;
+        }
+        console.error('Error deleting message:', error);
+        emitSocketError(socket, 'delete-message', 'INTERNAL_ERROR', 'Failed to delete message');
       }
     });
 
-    // Handle typing indicator
-    socket.on('typing', (data: { sessionId: string; isTyping: boolean }) => {
-      socket.to(`chat:${data.sessionId}`).emit('user-typing', {
-        userId,
-        isTyping: data.isTyping,
+    // Handle adding and removing emoji reactions
+    for (const event of ['add-reaction', 'remove-reaction'] as const) {
+      socket.on(event, async (payload: unknown) => {
+        const parsed = reactionSchema.safeParse(payload);
+        if (!parsed.success) {
+          emitSocketError(socket, event, 'INVALID_PAYLOAD', 'Invalid reaction');
+          return;
+        }
+        const { messageId, emoji } = parsed.data;
+
+        try {
+          if (event === 'add-reaction') {
+            await addReaction(userId, messageId, emoji);
+          } else {
+            await removeReaction(userId, messageId, emoji);
+          }
+        } catch (error) {
+          if (error instanceof ReactionError) {
+            emitSocketError(socket, event, statusToCode(error.status), error.message, { messageId });
+            return;
+          }
+          console.error('Error updating reaction:', error);
+          emitSocketError(socket, event, 'INTERNAL_ERROR', 'Failed to update reaction');
+        }
       });
+    }
+
+    // Handle typing indicator (only relayed to rooms the socket was allowed to join)
+    socket.on('typing', async (payload: unknown) => {
+      const parsed = typingSchema.safeParse(payload);
+      if (!parsed.success) {
+        emitSocketError(socket, 'typing', 'INVALID_PAYLOAD', 'Invalid typing payload');
+        return;
+      }
+      const { sessionId, isTyping } = parsed.data;
+
+      if (!socket.rooms.has(`chat:${sessionId}`)) {
+        emitSocketError(socket, 'typing', 'NOT_IN_ROOM', 'Join the chat before sending typing updates', {
+          sessionId,
+        });
+        return;
+      }
+
+      try {
+        const blockedIds = await getBlockedUserIds(userId);
+        socket.to(`chat:${sessionId}`).except(blockedIds.map(userRoom)).emit('user-typing', {
+          userId,
+          sessionId,
+          isTyping,
+        });
+      } catch (error) {
+        console.error('Error relaying typing indicator:', error);
+      }
     });
 
     // Handle read receipts
-    socket.on('mark-read', async (data: { sessionId: string; messageIds: string[] }) => {
+    socket.on('mark-read', async (payload: unknown) => {
+      const parsed = markReadSchema.safeParse(payload);
+      if (!parsed.success) {
+        emitSocketError(socket, 'mark-read', 'INVALID_PAYLOAD', 'Invalid read receipt');
+        return;
+      }
+      const { sessionId, messageIds } = parsed.data;
+
       try {
-        const { sessionId, messageIds } = data;
-        
         // Verify user is part of this session
-        const session = await prisma.chatSession.findFirst({
-          where: {
-            id: sessionId,
-            OR: [
-              { participant1Id: userId },
-              { participant2Id: userId },
-            ],
-          },
-        });
+        const membership = await findMembership(sessionId, userId);
 
-        if (!session) {
+        if (!membership) {
+          emitSocketError(socket, 'mark-read', 'NOT_A_MEMBER', 'Session not found', { sessionId });
           return;
         }
 
+        const readAt = new Date();
+
         // Mark messages as read
         await prisma.message.updateMany({
           where: {
             id: { in: messageIds },
+            chatSessionId: sessionId,
             receiverId: userId,
             readAt: null,
           },
           data: {
-            readAt: new Date(),
+            readAt,
           },
         });
 
-        // Notify sender that messages were read
-        const senderId = session.participant1Id === userId 
-          ? session.participant2Id 
-          : session.participant1Id;
-        
-        const senderSocketId = onlineUsers.get(senderId);
-        if (senderSocketId) {
-          io.to(senderSocketId).emit('messages-read', {
-            sessionId,
-            messageIds,
+        // Group conversations keep a per-member read marker instead
+        if (membership.chatSession.isGroup) {
+          await prisma.chatMember.update({
+            where: { id: membership.id },
+            data: { lastReadAt: readAt },
           });
         }
+
+        pushUnreadCounts([userId], sessionId);
+
+        // Notify the other members that messages were read
+        const memberIds = await getMemberIds(sessionId);
+        emitToUsers(memberIds.filter((memberId) => memberId !== userId), 'messages-read', {
+          sessionId,
+          messageIds,
+          userId,
+        });
       } catch (error) {
         console.error('Error marking messages as read:', error);
+        emitSocketError(socket, 'mark-read', 'INTERNAL_ERROR', 'Failed to mark messages as read');
+      }
+    });
+
+    // Handle cancelling an in-flight AI reply (the partial text is kept)
+    socket.on('ai-stream-cancel', (data: { streamId: string }) => {
+      if (typeof data?.streamId !== 'string') {
+        socket.emit('ai-stream-error', {
+          streamId: data?.streamId,
+          code: 'NOT_FOUND',
+          error: 'Stream not found',
+        });
+        return;
+      }
+      // The stream may run on another instance; the owner aborts it and emits ai-stream-done
+      cancelStream(data.streamId, userId)
+        .catch((error) => console.error('Error cancelling AI stream:', error));
+    });
+
+    // Handle a device going idle or becoming active again
+    socket.on('set-presence', async (data: { status: 'online' | 'away' }) => {
+      if (data?.status !== 'online' && data?.status !== 'away') {
+        return;
+      }
+      try {
+        await broadcastPresence(socket, userId, await presence.setSocketStatus(userId, socket.id, data.status));
+      } catch (error) {
+        console.error('Error updating presence:', error);
       }
     });
 
     // Handle disconnect
-    socket.on('disconnect', () => {
-      onlineUsers.delete(userId);
-      socket.broadcast.emit('user-offline', { userId });
+    socket.on('disconnect', async () => {
       console.log(`User ${userId} disconnected`);
+
+      try {
+        await registered;
+        const change = await presence.removeSocket(userId, socket.id);
+
+        if (change.current === 'offline') {
+          await prisma.user.update({
+            where: { id: userId },
+            data: { lastSeenAt: new Date() },
+          });
+        }
+
+        await broadcastPresence(socket, userId, change);
+      } catch (error) {
+        console.error('Error updating presence:', error);
+      }
     });
   });
 };
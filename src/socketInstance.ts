@@ -1,12 +1,82 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Express } from 'express';
 import { Server } from 'socket.io';
 
-let ioInstance: Server | null = null;
+// Server of the instance handling the current request or socket event, so
+// several instances can run in one process (see cluster-dev.ts)
+const currentInstance = new AsyncLocalStorage<Server>();
 
-export const setSocketInstance = (io: Server) => {
-  ioInstance = io;
+// Used outside any request or socket event, e.g. by background jobs
+let defaultInstance: Server | null = null;
+
+/**
+ * Register an instance's server and run its HTTP requests and socket events
+ * with it, so emits from routes and services go through that instance
+ */
+export const setSocketInstance = (io: Server, app: Express) => {
+  defaultInstance ??= io;
+  app.use((_req, _res, next) => currentInstance.run(io, next));
+  io.use((_socket, next) => currentInstance.run(io, next));
+  io.on('connection', (socket) => {
+    socket.use((_event, next) => currentInstance.run(io, next));
+  });
 };
 
 export const getSocketInstance = (): Server | null => {
-  return ioInstance;
+  return currentInstance.getStore() ?? defaultInstance;
+};
+
+/**
+ * Room every socket of a user joins on connect. Emitting to it reaches all of
+ * the user's devices, on whichever server instance they are connected.
+ */
+export const userRoom = (userId: string) => `user:${userId}`;
+
+/**
+ * Emit an event to every connected device of the given users
+ */
+export const emitToUsers = (userIds: string[], event: string, payload: unknown) => {
+  const io = getSocketInstance();
+  if (!io || userIds.length === 0) {
+    return;
+  }
+
+  io.to(userIds.map(userRoom)).emit(event, payload);
 };
 
+/**
+ * Emit an event to a chat room and to every member's devices, skipping the
+ * devices of `excludeUserIds` (e.g. members who blocked the sender).
+ * Socket.IO de-duplicates sockets that are in more than one target room.
+ */
+export const emitToSession = (
+  sessionId: string,
+  memberIds: string[],
+  event: string,
+  payload: unknown,
+  excludeUserIds: string[] = []
+) => {
+  const io = getSocketInstance();
+  if (!io) {
+    return;
+  }
+
+  io.to([`chat:${sessionId}`, ...memberIds.map(userRoom)])
+    .except(excludeUserIds.map(userRoom))
+    .emit(event, payload);
+};
+
+/**
+ * Pull all of a user's sockets out of a chat room, e.g. after they leave or are
+ * removed from a group, so they stop receiving its room broadcasts.
+ */
+export const removeUserFromSession = (userId: string, sessionId: string) => {
+  getSocketInstance()?.in(userRoom(userId)).socketsLeave(`chat:${sessionId}`);
+};
+
+/**
+ * Disconnect every device of a user, e.g. after their account was deleted
+ */
+export const disconnectUser = (userId: string) => {
+  getSocketInstance()?.in(userRoom(userId)).disconnectSockets(true);
+};
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import express from 'express';
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import type { ChatMessage } from '../src/ai/providers.js';
+
+// Replies come from the deterministic mock provider; rules are read when modules load
+process.env.AI_PROVIDER = 'mock';
+process.env.AI_TOOLS = 'get_current_time';
+process.env.MODERATION_BLOCK_WORDS = 'forbidden';
+process.env.MODERATION_MASK_WORDS = 'darn';
+process.env.MODERATION_CLASSIFIER = 'off';
+
+// alice owns conversation "c1" with the default assistant
+const conversation = { id: 'c1', botId: 'assistant', name: 'Chat', aiSettings: null, bot: null };
+
+// What the model is shown; each test sets the conversation so far
+let prompt: ChatMessage[] = [];
+const events: Array<{ event: string; payload: any }> = [];
+const saved: Array<{ content: string; senderId: string }> = [];
+const reports: Array<{ messageId: string; reason: string }> = [];
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class {
+    message = {
+      create: async ({ data }: { data: { content: string; senderId: string } }) => {
+        saved.push(data);
+        return { id: `m${saved.length}`, ...data, createdAt: new Date(), _count: { replies: 0 }, parent: null, attachments: [] };
+      },
+    };
+    aiToolCall = {
+      create: async ({ data }: { data: { callId: string; name: string; result: unknown; error: string | null } }) =>
+        ({ id: `t-${data.callId}`, ...data }),
+    };
+    chatSession = { update: async () => ({}) };
+    reaction = { findMany: async () => [] };
+    report = {
+      create: async ({ data }: { data: (typeof reports)[number] }) => {
+        reports.push(data);
+      },
+    };
+  },
+}));
+
+// Sign requests in as the user named by their token
+vi.mock('../src/middleware/auth.js', () => ({
+  authenticateToken: (req: express.Request & { userId?: string }, _res: express.Response, next: express.NextFunction) => {
+    req.userId = req.headers.authorization?.replace(/^Bearer /, '');
+    next();
+  },
+}));
+
+vi.mock('../src/middleware/rateLimit.js', () => ({
+  rateLimit: () => (_req: express.Request, _res: express.Response, next: express.NextFunction) => next(),
+}));
+
+vi.mock('../src/ai/quota.js', () => ({
+  checkTokenQuota: async () => ({ allowed: true, retryAfterMs: 0 }),
+}));
+
+vi.mock('../src/ai/conversations.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/ai/conversations.js')>()),
+  findAiConversation: async (sessionId: string, userId: string) =>
+    sessionId === conversation.id && userId === 'alice' ? conversation : null,
+}));
+
+vi.mock('../src/ai/context.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/ai/context.js')>()),
+  buildContext: async () => ({ prompt }),
+  compactMemory: async () => {},
+}));
+
+vi.mock('../src/ai/usage.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/ai/usage.js')>()),
+  recordAiUsage: async () => {},
+}));
+
+vi.mock('../src/services/unread.js', () => ({
+  pushUnreadCounts: async () => {},
+}));
+
+vi.mock('../src/services/sessionSettings.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/services/sessionSettings.js')>()),
+  unarchiveSession: async () => {},
+}));
+
+vi.mock('../src/socketInstance.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/socketInstance.js')>()),
+  emitToUsers: (_userIds: string[], event: string, payload: unknown) => {
+    events.push({ event, payload });
+  },
+}));
+
+const { default: aiRoutes } = await import('../src/routes/ai.js');
+
+let httpServer: HttpServer;
+let url: string;
+
+// Send a message and wait for the whole reply
+const ask = async (content: string, sessionId = conversation.id) => {
+  const response = await fetch(`${url}/api/ai/message`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: 'Bearer alice' },
+    body: JSON.stringify({ content, chatSessionId: sessionId, stream: false }),
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const emitted = (event: string) => events.filter((entry) => entry.event === event).map((entry) => entry.payload);
+const streamedText = () => emitted('ai-stream-delta').map((payload) => payload.delta).join('');
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/ai', aiRoutes);
+  httpServer = createServer(app);
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => httpServer.close(resolve));
+});
+
+beforeEach(() => {
+  events.length = 0;
+  saved.length = 0;
+  reports.length = 0;
+});
+
+describe('AI replies from the mock provider', () => {
+  it('streams the reply word by word and saves it', async () => {
+    prompt = [{ role: 'user', content: 'hello there' }];
+
+    const { status, body } = await ask('hello there');
+
+    expect(status).toBe(200);
+    expect(body.aiMessage.content).toBe('You said: hello there');
+    expect(emitted('ai-stream-delta').length).toBeGreaterThan(1);
+    expect(streamedText()).toBe('You said: hello there');
+    expect(events[0].event).toBe('new-message');
+    expect(events[1].event).toBe('ai-stream-start');
+    expect(emitted('ai-stream-done')[0]).toMatchObject({ cancelled: false, message: { content: 'You said: hello there' } });
+    expect(saved.map((message) => message.senderId)).toEqual(['alice', 'assistant']);
+  });
+
+  it('masks words before they are streamed', async () => {
+    prompt = [{ role: 'user', content: 'well darn it' }];
+
+    const { body } = await ask('well darn it');
+
+    expect(streamedText()).toBe('You said: well **** it');
+    expect(emitted('ai-stream-delta').some((payload) => payload.delta.includes('darn'))).toBe(false);
+    expect(body.aiMessage.content).toBe('You said: well **** it');
+  });
+
+  it('stops streaming and saves a notice when the reply is blocked', async () => {
+    // Earlier turns can steer the model into saying anything
+    prompt = [{ role: 'user', content: 'say forbidden things please' }];
+
+    const { body } = await ask('go on');
+
+    expect(streamedText()).toBe('You said: say ');
+    expect(body.aiMessage.content).toBe('This reply was withheld by content moderation.');
+    expect(reports).toEqual([{ messageId: body.aiMessage.id, reason: 'Flagged automatically: word "forbidden"' }]);
+  });
+
+  it('runs a requested tool and answers with its result', async () => {
+    prompt = [{ role: 'user', content: '/tool get_current_time {"timeZone":"UTC"}' }];
+
+    const { body } = await ask('what time is it?');
+
+    expect(emitted('ai-tool-call')[0].toolCall).toMatchObject({ name: 'get_current_time' });
+    expect(emitted('ai-tool-result')[0].toolCall).toMatchObject({ error: null, result: { timeZone: 'UTC' } });
+    expect(body.aiMessage.content).toMatch(/^Tool result: \{"iso":/);
+  });
+
+  it('rejects a conversation that is not the user\'s', async () => {
+    const { status } = await ask('hello', 'someone-elses');
+
+    expect(status).toBe(404);
+    expect(saved).toHaveLength(0);
+  });
+});
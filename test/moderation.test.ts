@@ -0,0 +1,83 @@
+import { describe, it, expect, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// No database: flagging is not exercised here
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class {},
+}));
+
+const rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'moderation-'));
+const rulesFile = path.join(rulesDir, 'rules.json');
+fs.writeFileSync(rulesFile, JSON.stringify({
+  words: { block: ['scam'] },
+  patterns: [{ pattern: '\\b\\d{4}-\\d{4}-\\d{4}-\\d{4}\\b', action: 'mask', label: 'card number' }],
+}));
+
+// Rules are read when the module loads
+process.env.MODERATION_BLOCK_WORDS = 'spam';
+process.env.MODERATION_FLAG_WORDS = 'refund';
+process.env.MODERATION_MASK_WORDS = 'darn, heck';
+process.env.MODERATION_RULES_FILE = rulesFile;
+process.env.MODERATION_CLASSIFIER = 'off';
+
+const { moderateContent, moderateBotContent, applyModerationRules } = await import('../src/services/moderation.js');
+
+afterAll(() => {
+  fs.rmSync(rulesDir, { recursive: true, force: true });
+});
+
+describe('moderation rules', () => {
+  it('blocks a message containing a blocked word', async () => {
+    expect(await moderateContent('buy cheap SPAM now')).toEqual({
+      content: 'buy cheap SPAM now',
+      blocked: true,
+      flags: ['word "spam"'],
+    });
+  });
+
+  it('matches whole words only', async () => {
+    expect(await moderateContent('spammer and scampi')).toEqual({
+      content: 'spammer and scampi',
+      blocked: false,
+      flags: [],
+    });
+  });
+
+  it('masks every match, keeping its length', async () => {
+    const result = await moderateContent('Darn it, darn it all to heck');
+    expect(result.content).toBe('**** it, **** it all to ****');
+    expect(result.blocked).toBe(false);
+    expect(result.flags).toEqual([]);
+  });
+
+  it('delivers flagged messages unchanged and reports why', async () => {
+    expect(await moderateContent('I want a refund')).toEqual({
+      content: 'I want a refund',
+      blocked: false,
+      flags: ['word "refund"'],
+    });
+  });
+
+  it('applies word lists and patterns from the rules file', async () => {
+    expect((await moderateContent('this is a scam')).blocked).toBe(true);
+    expect((await moderateContent('card 1234-5678-9012-3456, darn')).content).toBe('card *******************, ****');
+  });
+
+  it('masks and flags together when a message matches both', async () => {
+    expect(applyModerationRules('heck, refund me')).toEqual({
+      content: '****, refund me',
+      blocked: false,
+      flags: ['word "refund"'],
+    });
+  });
+
+  it('replaces blocked bot output with a notice', async () => {
+    const result = await moderateBotContent('here is some spam');
+    expect(result.blocked).toBe(true);
+    expect(result.content).not.toContain('spam');
+    expect(result.flags).toEqual(['word "spam"']);
+  });
+});
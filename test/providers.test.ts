@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { createMockProvider, createOpenAiProvider, ChatMessage, ChatStreamEvent } from '../src/ai/providers.js';
+
+const request = (messages: ChatMessage[], tools?: Array<{ name: string }>) => ({
+  model: 'test',
+  messages,
+  maxTokens: 100,
+  temperature: 0,
+  tools: tools?.map(({ name }) => ({ name, description: name, parameters: {} })),
+});
+
+const collect = async (events: AsyncIterable<ChatStreamEvent>) => {
+  const collected: ChatStreamEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+};
+
+const textOf = (events: ChatStreamEvent[]) =>
+  events.map((event) => (event.type === 'text' ? event.text : '')).join('');
+
+describe('mock provider', () => {
+  const provider = createMockProvider();
+
+  it('echoes the last user message word by word', async () => {
+    const events = await collect(provider.streamChat(request([
+      { role: 'user', content: 'first' },
+      { role: 'assistant', content: 'You said: first' },
+      { role: 'user', content: 'hello there' },
+    ])));
+
+    expect(events).toEqual([
+      { type: 'text', text: 'You ' },
+      { type: 'text', text: 'said: ' },
+      { type: 'text', text: 'hello ' },
+      { type: 'text', text: 'there' },
+    ]);
+  });
+
+  it('calls a tool when asked to and the tool is offered', async () => {
+    const events = await collect(provider.streamChat(request(
+      [{ role: 'user', content: '/tool get_current_time {"timeZone":"UTC"}' }],
+      [{ name: 'get_current_time' }]
+    )));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'tool-calls',
+      toolCalls: [{ name: 'get_current_time', arguments: '{"timeZone":"UTC"}' }],
+    });
+  });
+
+  it('answers in text when the tool is not offered', async () => {
+    const events = await collect(provider.streamChat(request([{ role: 'user', content: '/tool get_current_time' }])));
+
+    expect(textOf(events)).toBe('You said: /tool get_current_time');
+  });
+
+  it('echoes a tool result back', async () => {
+    const events = await collect(provider.streamChat(request([
+      { role: 'user', content: '/tool get_current_time' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call-1', name: 'get_current_time', arguments: '{}' }] },
+      { role: 'tool', toolCallId: 'call-1', content: '{"iso":"2024-01-01T00:00:00.000Z"}' },
+    ])));
+
+    expect(textOf(events)).toBe('Tool result: {"iso":"2024-01-01T00:00:00.000Z"}');
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const received: string[] = [];
+
+    await expect((async () => {
+      for await (const event of provider.streamChat(request([{ role: 'user', content: 'one two three' }]), controller.signal)) {
+        received.push(textOf([event]));
+        controller.abort();
+      }
+    })()).rejects.toThrow('Request was aborted.');
+    expect(received).toEqual(['You ']);
+  });
+});
+
+describe('OpenAI provider', () => {
+  it('can be created without an API key and reports that it is not configured', async () => {
+    const provider = createOpenAiProvider({ name: 'openai' });
+
+    expect(provider.isConfigured()).toBe(false);
+    await expect(collect(provider.streamChat(request([{ role: 'user', content: 'hi' }]))))
+      .rejects.toThrow('AI provider is not configured');
+  });
+
+  it('needs no key for an OpenAI-compatible server', () => {
+    const provider = createOpenAiProvider({ name: 'openai-compatible', baseURL: 'http://localhost:8080/v1' });
+
+    expect(provider.isConfigured()).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// No database: only emoji validation is exercised here
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class {},
+}));
+
+const { isValidEmoji } = await import('../src/services/reactions.js');
+
+describe('isValidEmoji', () => {
+  it.each([
+    ['👍'],
+    ['❤️'],
+    ['👍🏽'],
+    ['👩‍💻'],
+    ['🇫🇷'],
+    ['🎉🎉'],
+  ])('accepts %s', (emoji) => {
+    expect(isValidEmoji(emoji)).toBe(true);
+  });
+
+  it.each([
+    ['', 'empty'],
+    ['a', 'a letter'],
+    ['ok 👍', 'text with an emoji'],
+    ['1', 'a digit'],
+    ['#', 'a keycap base'],
+    ['🏽', 'a skin tone on its own'],
+    ['👍'.repeat(20), 'too long'],
+  ])('rejects %s (%s)', (emoji) => {
+    expect(isValidEmoji(emoji)).toBe(false);
+  });
+});
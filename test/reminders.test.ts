@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let pending = 0;
+const created: Array<{ userId: string; chatSessionId: string; text: string; remindAt: Date }> = [];
+
+// No database: count the pending reminders and record what would be created
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class {
+    reminder = {
+      count: async () => pending,
+      create: async ({ data }: { data: (typeof created)[number] }) => {
+        created.push(data);
+        return { id: `r${created.length}`, ...data, deliveredAt: null, createdAt: new Date() };
+      },
+    };
+  },
+}));
+
+const { createReminder, ReminderError } = await import('../src/services/reminders.js');
+
+const inDays = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+describe('createReminder', () => {
+  beforeEach(() => {
+    pending = 0;
+    created.length = 0;
+  });
+
+  it('schedules a reminder in the future', async () => {
+    const remindAt = inDays(1);
+    const reminder = await createReminder('alice', 's1', 'Call Bob', remindAt);
+
+    expect(reminder).toMatchObject({ userId: 'alice', chatSessionId: 's1', text: 'Call Bob', remindAt });
+    expect(created).toHaveLength(1);
+  });
+
+  it('rejects a time that has already passed', async () => {
+    await expect(createReminder('alice', 's1', 'Too late', new Date(Date.now() - 1000)))
+      .rejects.toMatchObject({ status: 400, message: 'Reminders must be set in the future' });
+    expect(created).toHaveLength(0);
+  });
+
+  it('rejects a time more than a year ahead', async () => {
+    await expect(createReminder('alice', 's1', 'Far off', inDays(366)))
+      .rejects.toBeInstanceOf(ReminderError);
+    await expect(createReminder('alice', 's1', 'Just in time', inDays(364))).resolves.toBeDefined();
+  });
+
+  it('limits how many reminders may be pending at once', async () => {
+    pending = 49;
+    await expect(createReminder('alice', 's1', 'Last one', inDays(1))).resolves.toBeDefined();
+
+    pending = 50;
+    await expect(createReminder('alice', 's1', 'One too many', inDays(1)))
+      .rejects.toMatchObject({ status: 400, message: 'You can have at most 50 pending reminders' });
+  });
+});
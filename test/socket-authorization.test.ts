@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import express from 'express';
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+
+// Session "s1" belongs to alice and bob; mallory is signed in but not a member
+const members: Record<string, string[]> = { s1: ['alice', 'bob'] };
+
+// Sign sockets in as the user named by their token
+vi.mock('../src/auth.js', () => ({
+  auth: {
+    api: {
+      getSession: async ({ headers }: { headers: { authorization: string } }) => {
+        const userId = headers.authorization.replace(/^Bearer /, '');
+        return userId ? { user: { id: userId } } : null;
+      },
+    },
+  },
+}));
+
+// No database: the only query these paths reach is recording last-seen on disconnect
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class {
+    user = { update: async () => ({}) };
+  },
+}));
+
+vi.mock('../src/services/membership.js', () => ({
+  findMembership: async (sessionId: string, userId: string) =>
+    members[sessionId]?.includes(userId)
+      ? { id: `${sessionId}:${userId}`, chatSessionId: sessionId, userId, chatSession: { id: sessionId, isGroup: false, botId: null } }
+      : null,
+  getMemberIds: async (sessionId: string) => members[sessionId] ?? [],
+}));
+
+vi.mock('../src/services/blocks.js', () => ({
+  getBlockedUserIds: async () => [],
+  getBlockerIds: async () => [],
+  hasBlocked: async () => false,
+}));
+
+const { initializeSocket } = await import('../src/socket.js');
+const { setSocketInstance, emitToSession } = await import('../src/socketInstance.js');
+
+let httpServer: HttpServer;
+let io: Server;
+let url: string;
+const clients: ClientSocket[] = [];
+
+const connectAs = async (userId: string) => {
+  const client = connect(url, { auth: { token: userId }, transports: ['websocket'], forceNew: true });
+  clients.push(client);
+  await new Promise<void>((resolve, reject) => {
+    client.once('connect', resolve);
+    client.once('connect_error', reject);
+  });
+  return client;
+};
+
+// Collect every event of a name a client receives
+const record = (client: ClientSocket, event: string) => {
+  const received: unknown[] = [];
+  client.on(event, (payload) => received.push(payload));
+  return received;
+};
+
+const nextEvent = <T = any>(client: ClientSocket, event: string) =>
+  new Promise<T>((resolve) => client.once(event, resolve));
+
+// Long enough for a relayed event to have arrived over the loopback connection
+const settle = () => new Promise((resolve) => setTimeout(resolve, 150));
+
+beforeAll(async () => {
+  const app = express();
+  httpServer = createServer(app);
+  io = new Server(httpServer);
+  setSocketInstance(io, app);
+  initializeSocket(io);
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  clients.forEach((client) => client.close());
+  io.close();
+  await new Promise((resolve) => httpServer.close(resolve));
+});
+
+describe('socket authorization for non-members', () => {
+  it('rejects joining the chat room of a session', async () => {
+    const mallory = await connectAs('mallory');
+
+    const rejected = nextEvent(mallory, 'socket-error');
+    mallory.emit('join-chat', 's1');
+
+    expect(await rejected).toMatchObject({ event: 'join-chat', code: 'NOT_A_MEMBER', sessionId: 's1' });
+  });
+
+  it('does not deliver the session traffic after a rejected join', async () => {
+    const alice = await connectAs('alice');
+    const mallory = await connectAs('mallory');
+
+    alice.emit('join-chat', 's1');
+    mallory.emit('join-chat', 's1');
+    await settle();
+
+    const seenByMallory = record(mallory, 'new-message');
+    const delivered = nextEvent(alice, 'new-message');
+    emitToSession('s1', members.s1, 'new-message', { chatSessionId: 's1', content: 'secret' });
+
+    expect(await delivered).toMatchObject({ content: 'secret' });
+    await settle();
+    expect(seenByMallory).toEqual([]);
+  });
+
+  it('rejects sending a message into the session', async () => {
+    const bob = await connectAs('bob');
+    const mallory = await connectAs('mallory');
+    bob.emit('join-chat', 's1');
+    await settle();
+    const seenByBob = record(bob, 'new-message');
+
+    const ack = await mallory.emitWithAck('send-message', {
+      chatSessionId: 's1',
+      content: 'injected',
+      receiverId: 'bob',
+    });
+
+    expect(ack).toMatchObject({ ok: false, event: 'send-message', code: 'NOT_A_MEMBER' });
+    await settle();
+    expect(seenByBob).toEqual([]);
+  });
+
+  it('reports a rejected send without an ack as message-error', async () => {
+    const mallory = await connectAs('mallory');
+
+    const rejected = nextEvent(mallory, 'message-error');
+    mallory.emit('send-message', { chatSessionId: 's1', content: 'injected' });
+
+    expect(await rejected).toMatchObject({ event: 'send-message', code: 'NOT_A_MEMBER' });
+  });
+
+  it('does not relay typing indicators into the session', async () => {
+    const bob = await connectAs('bob');
+    const mallory = await connectAs('mallory');
+    bob.emit('join-chat', 's1');
+    await settle();
+    const seenByBob = record(bob, 'user-typing');
+
+    const rejected = nextEvent(mallory, 'socket-error');
+    mallory.emit('typing', { sessionId: 's1', isTyping: true });
+
+    expect(await rejected).toMatchObject({ event: 'typing', code: 'NOT_IN_ROOM' });
+    await settle();
+    expect(seenByBob).toEqual([]);
+  });
+});
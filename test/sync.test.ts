@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const findFirst = vi.fn();
+const findMany = vi.fn();
+
+// No database: queries are answered by the mocks above and inspected by the tests
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class {
+    message = { findFirst, findMany };
+    reaction = { findMany: async () => [] };
+  },
+}));
+
+const { getMissedMessages, InvalidCursorError, MAX_PAGE_SIZE } = await import('../src/services/messages.js');
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 12, minute));
+
+// Sent by alice in a group, so syncing never marks anything delivered
+const row = (id: string, minute: number) => ({
+  id,
+  content: `message ${id}`,
+  chatSessionId: 's1',
+  senderId: 'alice',
+  receiverId: null,
+  deliveredAt: null,
+  createdAt: at(minute),
+  _count: { replies: 0 },
+  parent: null,
+  attachments: [],
+});
+
+const newQuery = () => findMany.mock.calls[0][0];
+const updatedQuery = () => findMany.mock.calls[1][0];
+
+describe('getMissedMessages', () => {
+  beforeEach(() => {
+    findFirst.mockReset();
+    findMany.mockReset();
+  });
+
+  it('returns everything from the start without a cursor', async () => {
+    findMany.mockResolvedValueOnce([row('m1', 1), row('m2', 2), row('m3', 3)]).mockResolvedValueOnce([]);
+
+    const result = await getMissedMessages('bob', { limit: 2 });
+
+    expect(newQuery().where.OR).toEqual([{ createdAt: { gt: new Date(0) } }]);
+    expect(newQuery().take).toBe(3);
+    expect(result.messages.map((message) => message.id)).toEqual(['m1', 'm2']);
+    expect(result.hasMore).toBe(true);
+    expect(result.nextCursor).toBe('m2');
+  });
+
+  it('continues after the cursor message, breaking ties on id', async () => {
+    findFirst.mockResolvedValueOnce({ id: 'm2', createdAt: at(2) });
+    findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+    const result = await getMissedMessages('bob', { since: 'm2' });
+
+    expect(findFirst.mock.calls[0][0].where).toEqual({
+      id: 'm2',
+      chatSession: { members: { some: { userId: 'bob' } } },
+    });
+    expect(newQuery().where.OR).toEqual([
+      { createdAt: { gt: at(2) } },
+      { createdAt: at(2), id: { gt: 'm2' } },
+    ]);
+    expect(newQuery().where.hiddenBy).toEqual({ none: { userId: 'bob' } });
+    expect(updatedQuery().where.createdAt).toEqual({ lte: at(2) });
+    // Nothing new: the same cursor is handed back
+    expect(result.nextCursor).toBe('m2');
+    expect(result.hasMore).toBe(false);
+  });
+
+  it('rejects a cursor the user cannot see', async () => {
+    findFirst.mockResolvedValueOnce(null);
+
+    await expect(getMissedMessages('bob', { since: 'elsewhere' })).rejects.toBeInstanceOf(InvalidCursorError);
+    expect(findMany).not.toHaveBeenCalled();
+  });
+
+  it('pages edits and deletions with their own cursor', async () => {
+    findFirst.mockResolvedValueOnce({ id: 'm1', createdAt: at(1) });
+    findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([row('m3', 3), row('m4', 4)]);
+
+    const result = await getMissedMessages('bob', { sinceTime: at(10), updatedAfter: 'm1', limit: 1 });
+
+    expect(updatedQuery().where).toMatchObject({
+      createdAt: { lte: at(10) },
+      OR: [{ editedAt: { gt: at(10) } }, { deletedAt: { gt: at(10) } }],
+      AND: {
+        OR: [
+          { createdAt: { gt: at(1) } },
+          { createdAt: at(1), id: { gt: 'm1' } },
+        ],
+      },
+    });
+    expect(result.updated.map((message) => message.id)).toEqual(['m3']);
+    expect(result.updatedHasMore).toBe(true);
+    expect(result.updatedNextCursor).toBe('m3');
+  });
+
+  it('caps the page size', async () => {
+    findMany.mockResolvedValue([]);
+
+    await getMissedMessages('bob', { limit: 10_000 });
+
+    expect(newQuery().take).toBe(MAX_PAGE_SIZE + 1);
+    expect(updatedQuery().take).toBe(MAX_PAGE_SIZE + 1);
+  });
+});